@@ -0,0 +1,93 @@
+import JSZip from 'jszip';
+import { describe, expect, test } from 'vitest';
+
+import { type ProjectSnapshot, packProject, unpackProject } from './backup';
+
+const snapshot: ProjectSnapshot = {
+  books: [
+    {
+      id: 'b1',
+      name: 'walden/1854.txt',
+      title: 'Walden',
+      text: 'I went to the woods.',
+      blob: new Blob(['original'], { type: 'text/plain' }),
+      createdAt: 1,
+    },
+  ],
+  runs: [
+    {
+      id: 'r1',
+      bookId: 'b1',
+      name: 'Run 1',
+      prompt: 'Distill.',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      stopToken: '<END>',
+      maxSections: 10,
+      createdAt: 2,
+    },
+  ],
+  sections: [
+    {
+      id: 's1',
+      bookId: 'b1',
+      runId: 'r1',
+      content: '# Economy',
+      heading: 'Economy',
+      status: 'accepted',
+      order: 1,
+    },
+  ],
+  chapters: [],
+  chunks: [],
+  usage: [],
+  presets: [],
+  settings: [{ key: 'last_book_id', value: 'b1' }],
+  preferences: { model: 'gpt-4o-mini', providerSettings: { openai: {} } },
+};
+
+async function roundTrip(files: boolean) {
+  const zip = await packProject(snapshot, { files });
+  return unpackProject(await zip.generateAsync({ type: 'uint8array' }));
+}
+
+describe('project archive', () => {
+  test('round-trips records, text and the original file', async () => {
+    const restored = await roundTrip(true);
+    const { blob, ...book } = restored.books[0];
+    expect(book).toEqual({
+      id: 'b1',
+      name: 'walden/1854.txt',
+      title: 'Walden',
+      text: 'I went to the woods.',
+      createdAt: 1,
+    });
+    expect(await blob?.text()).toBe('original');
+    expect(blob?.type).toBe('text/plain');
+    expect(restored.sections).toEqual(snapshot.sections);
+    expect(restored.settings).toEqual(snapshot.settings);
+    expect(restored.preferences).toEqual(snapshot.preferences);
+  });
+
+  test('leaves original files out unless asked', async () => {
+    const restored = await roundTrip(false);
+    expect(restored.books[0].blob).toBeUndefined();
+    expect(restored.books[0].text).toBe('I went to the woods.');
+  });
+
+  test('rejects archives that fail validation', async () => {
+    const zip = await packProject(snapshot, { files: false });
+    zip.file(
+      'project.json',
+      JSON.stringify({ ...snapshot, sections: [{ id: 's1' }] }),
+    );
+    await expect(
+      unpackProject(await zip.generateAsync({ type: 'uint8array' })),
+    ).rejects.toThrow('damaged: sections.0.bookId');
+
+    const other = new JSZip().file('readme.txt', 'hi');
+    await expect(
+      unpackProject(await other.generateAsync({ type: 'uint8array' })),
+    ).rejects.toThrow('Not a Book Distiller project archive');
+  });
+});
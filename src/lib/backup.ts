@@ -0,0 +1,392 @@
+import JSZip from 'jszip';
+import { z } from 'zod';
+
+import {
+  type BookRecord,
+  type ChapterRecord,
+  type ChunkRecord,
+  db,
+  type PromptPresetRecord,
+  type RunRecord,
+  type SectionRecord,
+  type SettingRecord,
+  type UsageRecord,
+} from '@/lib/db';
+import { withoutSecrets } from '@/lib/llm/registry';
+import {
+  loadProviderSettings,
+  type ProviderSettingsMap,
+  saveProviderSettings,
+} from '@/lib/llm/settings';
+
+const FORMAT = 'book-distiller-project';
+const VERSION = 1;
+const UNSAFE_PATH_CHARS = /[\\/:*?"<>|]/g;
+
+/** localStorage keys of the preferences a backup carries. */
+const PREFERENCE_KEYS = {
+  prompt: 'bd_prompt',
+  userTemplate: 'bd_user_template',
+  provider: 'bd_provider',
+  model: 'bd_model',
+} as const;
+
+type PreferenceName = keyof typeof PREFERENCE_KEYS;
+
+/** Editor preferences; provider settings never include API keys. */
+export type Preferences = Partial<Record<PreferenceName, string>> & {
+  providerSettings?: ProviderSettingsMap;
+};
+
+/** Everything a project archive holds, as database records. */
+export type ProjectSnapshot = {
+  books: Array<BookRecord>;
+  runs: Array<RunRecord>;
+  sections: Array<SectionRecord>;
+  chapters: Array<ChapterRecord>;
+  chunks: Array<ChunkRecord>;
+  usage: Array<UsageRecord>;
+  presets: Array<PromptPresetRecord>;
+  settings: Array<SettingRecord>;
+  preferences: Preferences;
+};
+
+/** Merge replaces the archive's books locally and keeps the rest. */
+export type ImportMode = 'merge' | 'replace';
+
+const Manifest = z.object({
+  format: z.literal(FORMAT),
+  version: z.number().int(),
+  exportedAt: z.number(),
+});
+
+/** A book in `project.json`; its text and original file are separate entries. */
+const BookEntry = z.object({
+  id: z.string(),
+  name: z.string(),
+  title: z.string().optional(),
+  author: z.string().optional(),
+  language: z.string().optional(),
+  publisher: z.string().optional(),
+  publishedDate: z.string().optional(),
+  createdAt: z.number(),
+  textPath: z.string().optional(),
+  file: z.object({ path: z.string(), type: z.string() }).optional(),
+});
+
+const Run: z.ZodType<RunRecord> = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  name: z.string(),
+  prompt: z.string(),
+  userTemplate: z.string().optional(),
+  provider: z.string(),
+  model: z.string(),
+  stopToken: z.string(),
+  maxSections: z.number(),
+  budget: z.number().optional(),
+  createdAt: z.number(),
+});
+
+const Section: z.ZodType<SectionRecord> = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  runId: z.string(),
+  content: z.string(),
+  heading: z.string(),
+  status: z.enum(['draft', 'accepted', 'discarded']),
+  order: z.number(),
+  chunks: z.array(z.number()).optional(),
+  candidates: z
+    .array(
+      z.object({
+        content: z.string(),
+        instruction: z.string().optional(),
+        chunks: z.array(z.number()).optional(),
+        createdAt: z.number(),
+      }),
+    )
+    .optional(),
+  activeCandidate: z.number().optional(),
+});
+
+const Chapter: z.ZodType<ChapterRecord> = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  index: z.number(),
+  title: z.string(),
+  level: z.number(),
+  start: z.number(),
+  end: z.number(),
+});
+
+const Chunk: z.ZodType<ChunkRecord> = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  size: z.number(),
+  index: z.number(),
+  start: z.number(),
+  end: z.number(),
+  notes: z.string(),
+});
+
+const Usage: z.ZodType<UsageRecord> = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  runId: z.string(),
+  kind: z.enum(['section', 'regenerate', 'notes', 'compare']),
+  provider: z.string(),
+  model: z.string(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  cost: z.number().optional(),
+  createdAt: z.number(),
+});
+
+const Preset: z.ZodType<PromptPresetRecord> = z.object({
+  id: z.string(),
+  name: z.string(),
+  system: z.string(),
+  user: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const Project = z.object({
+  books: z.array(BookEntry),
+  runs: z.array(Run),
+  sections: z.array(Section),
+  chapters: z.array(Chapter),
+  chunks: z.array(Chunk),
+  usage: z.array(Usage),
+  presets: z.array(Preset),
+  settings: z.array(z.object({ key: z.string(), value: z.unknown() })),
+  preferences: z.object({
+    prompt: z.string().optional(),
+    userTemplate: z.string().optional(),
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    providerSettings: z
+      .record(z.string(), z.record(z.string(), z.string()))
+      .optional(),
+  }),
+});
+
+/**
+ * Lays a snapshot out as a zip: `manifest.json`, `project.json` with every
+ * record, `texts/<book id>.txt` and, with `files`, the original uploads under
+ * `files/<book id>/`.
+ */
+export async function packProject(
+  { books, ...rest }: ProjectSnapshot,
+  { files }: { files: boolean },
+) {
+  const zip = new JSZip();
+  const entries = [];
+  for (const { blob, text, ...book } of books) {
+    const textPath = text === undefined ? undefined : `texts/${book.id}.txt`;
+    if (textPath) {
+      zip.file(textPath, text ?? '');
+    }
+    const file =
+      files && blob
+        ? {
+            path: `files/${book.id}/${book.name.replace(UNSAFE_PATH_CHARS, '_')}`,
+            type: blob.type,
+          }
+        : undefined;
+    if (file && blob) {
+      zip.file(file.path, await blob.arrayBuffer());
+    }
+    entries.push({ ...book, textPath, file });
+  }
+  zip.file(
+    'manifest.json',
+    JSON.stringify(
+      { format: FORMAT, version: VERSION, exportedAt: Date.now() },
+      null,
+      2,
+    ),
+  );
+  zip.file('project.json', JSON.stringify({ ...rest, books: entries }));
+  return zip;
+}
+
+function entry(zip: JSZip, path: string) {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`The archive is missing ${path}`);
+  }
+  return file;
+}
+
+async function readJSON(zip: JSZip, path: string): Promise<unknown> {
+  const text = await entry(zip, path).async('string');
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${path} in the archive is not valid JSON`);
+  }
+}
+
+/** Reads and validates a project archive made by {@link packProject}. */
+export async function unpackProject(
+  data: Blob | ArrayBuffer | Uint8Array,
+): Promise<ProjectSnapshot> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('The file is not a zip archive');
+  }
+  if (!zip.file('manifest.json')) {
+    throw new Error('Not a Book Distiller project archive');
+  }
+  const manifest = Manifest.safeParse(await readJSON(zip, 'manifest.json'));
+  if (!manifest.success) {
+    throw new Error('Not a Book Distiller project archive');
+  }
+  if (manifest.data.version > VERSION) {
+    throw new Error(
+      'This archive was made by a newer version of Book Distiller',
+    );
+  }
+  const project = Project.safeParse(await readJSON(zip, 'project.json'));
+  if (!project.success) {
+    const issue = project.error.issues[0];
+    throw new Error(
+      `The project archive is damaged: ${issue.path.join('.')}: ${issue.message}`,
+    );
+  }
+  const books = await Promise.all(
+    project.data.books.map(
+      async ({ textPath, file, ...book }): Promise<BookRecord> => ({
+        ...book,
+        ...(textPath && {
+          text: await entry(zip, textPath).async('string'),
+        }),
+        ...(file && {
+          blob: new Blob([await entry(zip, file.path).async('uint8array')], {
+            type: file.type,
+          }),
+        }),
+      }),
+    ),
+  );
+  return { ...project.data, books };
+}
+
+function readPreferences(): Preferences {
+  const preferences: Preferences = {
+    providerSettings: withoutSecrets(loadProviderSettings()),
+  };
+  for (const [name, key] of Object.entries(PREFERENCE_KEYS)) {
+    const value = localStorage.getItem(key);
+    if (value !== null) {
+      preferences[name as PreferenceName] = value;
+    }
+  }
+  return preferences;
+}
+
+/** Restores preferences, keeping the API keys already in this browser. */
+function applyPreferences({ providerSettings, ...values }: Preferences) {
+  for (const [name, key] of Object.entries(PREFERENCE_KEYS)) {
+    const value = values[name as PreferenceName];
+    if (value !== undefined) {
+      localStorage.setItem(key, value);
+    }
+  }
+  const current = loadProviderSettings();
+  for (const [id, settings] of Object.entries(providerSettings ?? {})) {
+    current[id] = { ...current[id], ...settings };
+  }
+  saveProviderSettings(current);
+}
+
+const projectTables = () => [
+  db.books,
+  db.runs,
+  db.sections,
+  db.chapters,
+  db.chunks,
+  db.usage,
+  db.presets,
+  db.settings,
+  db.history,
+  db.runners,
+];
+
+/** The whole database as a zip; original uploads only with `files`. */
+export async function exportProject({ files }: { files: boolean }) {
+  const [books, runs, sections, chapters, chunks, usage, presets, settings] =
+    await Promise.all([
+      db.books.toArray(),
+      db.runs.toArray(),
+      db.sections.toArray(),
+      db.chapters.toArray(),
+      db.chunks.toArray(),
+      db.usage.toArray(),
+      db.presets.toArray(),
+      db.settings.toArray(),
+    ]);
+  const zip = await packProject(
+    {
+      books,
+      runs,
+      sections,
+      chapters,
+      chunks,
+      usage,
+      presets,
+      settings,
+      preferences: readPreferences(),
+    },
+    { files },
+  );
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+/**
+ * Loads a project archive. `replace` clears the database and restores the
+ * archive's preferences too; `merge` swaps in the archive's books with their
+ * runs, sections and notes, keeping any original file stored here when the
+ * archive has none, and leaves other books alone.
+ */
+export async function importProject(file: Blob, mode: ImportMode) {
+  const snapshot = await unpackProject(file);
+  const bookIds = snapshot.books.map((b) => b.id);
+  await db.transaction('rw', projectTables(), async () => {
+    let books = snapshot.books;
+    if (mode === 'replace') {
+      await Promise.all(projectTables().map((table) => table.clear()));
+      await db.settings.bulkPut(snapshot.settings);
+    } else {
+      const stored = await db.books.bulkGet(bookIds);
+      books = books.map((b, i) => ({ blob: stored[i]?.blob, ...b }));
+      for (const table of [
+        db.runs,
+        db.sections,
+        db.chapters,
+        db.chunks,
+        db.usage,
+        // Undo steps would restore sections the archive has replaced
+        db.history,
+        db.runners,
+      ]) {
+        await table.where('bookId').anyOf(bookIds).delete();
+      }
+    }
+    await db.books.bulkPut(books);
+    await db.runs.bulkPut(snapshot.runs);
+    await db.sections.bulkPut(snapshot.sections);
+    await db.chapters.bulkPut(snapshot.chapters);
+    await db.chunks.bulkPut(snapshot.chunks);
+    await db.usage.bulkPut(snapshot.usage);
+    await db.presets.bulkPut(snapshot.presets);
+  });
+  if (mode === 'replace') {
+    applyPreferences(snapshot.preferences);
+  }
+  return { books: snapshot.books.length, sections: snapshot.sections.length };
+}
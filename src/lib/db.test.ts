@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+
+import Dexie from 'dexie';
+import { expect, test } from 'vitest';
+
+import { db } from './db';
+
+test('the runs upgrade gives each book with sections a first run', async () => {
+  localStorage.setItem('bd_model', 'claude-3-5-haiku');
+  // A database as version 2 left it, before runs existed
+  const old = new Dexie('book_distiller_db');
+  old.version(2).stores({
+    books: 'id, createdAt',
+    sections: 'id, bookId, order',
+    settings: 'key',
+    chunks: 'id, bookId',
+  });
+  await old.table('books').bulkPut([
+    { id: 'a', name: 'a.pdf', createdAt: 0 },
+    { id: 'b', name: 'b.pdf', createdAt: 0 },
+    { id: 'c', name: 'c.pdf', createdAt: 0 },
+  ]);
+  await old.table('sections').bulkPut([
+    {
+      id: 's1',
+      bookId: 'a',
+      content: '',
+      heading: '',
+      status: 'accepted',
+      order: 1,
+    },
+    {
+      id: 's2',
+      bookId: 'a',
+      content: '',
+      heading: '',
+      status: 'draft',
+      order: 2,
+    },
+    {
+      id: 's3',
+      bookId: 'b',
+      content: '',
+      heading: '',
+      status: 'accepted',
+      order: 1,
+    },
+  ]);
+  old.close();
+
+  const runs = await db.runs.toArray();
+  expect(runs.map((r) => r.bookId).sort()).toEqual(['a', 'b']);
+  expect(runs[0]).toMatchObject({ name: 'Run 1', model: 'claude-3-5-haiku' });
+  const runOf = new Map(runs.map((r) => [r.bookId, r.id]));
+  const sections = await db.sections.toArray();
+  for (const s of sections) {
+    expect(s.runId).toBe(runOf.get(s.bookId));
+  }
+  expect(await db.books.count()).toBe(3);
+});
@@ -0,0 +1,250 @@
+import Dexie, { type Table } from 'dexie';
+
+import {
+  DEFAULT_MAX_SECTIONS,
+  DEFAULT_PROMPT,
+  DEFAULT_STOP_TOKEN,
+} from '@/lib/distill/defaults';
+
+export type SectionStatus = 'draft' | 'accepted' | 'discarded';
+
+export type BookRecord = {
+  id: string;
+  name: string;
+  blob?: Blob;
+  text?: string;
+  title?: string;
+  author?: string;
+  language?: string;
+  publisher?: string;
+  /** Publication date from the file's metadata (YYYY[-MM[-DD]]). */
+  publishedDate?: string;
+  createdAt: number;
+};
+
+/** The generation settings a run was made with. */
+export type RunSettings = {
+  prompt: string;
+  /** User message template; runs made before templates used the default. */
+  userTemplate?: string;
+  provider: string;
+  model: string;
+  stopToken: string;
+  maxSections: number;
+};
+
+/** One distillation attempt of a book; sections belong to a run. */
+export type RunRecord = RunSettings & {
+  id: string;
+  bookId: string;
+  name: string;
+  /** Spending cap in USD; auto-advance stops before a call would pass it. */
+  budget?: number;
+  createdAt: number;
+};
+
+/** One generated version of a section; the user picks which one to keep. */
+export type SectionCandidate = {
+  content: string;
+  /** Feedback the candidate was regenerated with, if any. */
+  instruction?: string;
+  chunks?: Array<number>;
+  createdAt: number;
+};
+
+export type SectionRecord = {
+  id: string;
+  bookId: string;
+  runId: string;
+  content: string;
+  heading: string;
+  status: SectionStatus;
+  order: number;
+  /** Long-book mode: 1-based chunk numbers the section drew on. */
+  chunks?: Array<number>;
+  /** All versions generated for this slot; `content` mirrors the active one. */
+  candidates?: Array<SectionCandidate>;
+  activeCandidate?: number;
+};
+
+/** A table-of-contents entry with its span in the book's extracted text. */
+export type ChapterRecord = {
+  /** `${bookId}:${index}` */
+  id: string;
+  bookId: string;
+  index: number;
+  title: string;
+  level: number;
+  start: number;
+  end: number;
+};
+
+/** Reading notes for one slice of a long book (map step). */
+export type ChunkRecord = {
+  /** `${bookId}:${size}:${index}` so a different chunk size gets fresh notes. */
+  id: string;
+  bookId: string;
+  size: number;
+  index: number;
+  start: number;
+  end: number;
+  notes: string;
+};
+
+export type UsageKind = 'section' | 'regenerate' | 'notes' | 'compare';
+
+/** Token usage of one provider call, as the provider reported it. */
+export type UsageRecord = {
+  id: string;
+  bookId: string;
+  /** The run the call was made for; chunk notes count against it too. */
+  runId: string;
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD at list price; missing for models without a known price. */
+  cost?: number;
+  createdAt: number;
+};
+
+/** A named system prompt and user message template the user can reuse. */
+export type PromptPresetRecord = {
+  id: string;
+  name: string;
+  system: string;
+  user: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** A section before and after a change; null where it did not exist. */
+export type SectionChange = {
+  id: string;
+  before: SectionRecord | null;
+  after: SectionRecord | null;
+};
+
+/** One undoable step in a run's section history. */
+export type HistoryRecord = {
+  /** Auto-incremented; orders the steps. */
+  seq?: number;
+  bookId: string;
+  runId: string;
+  label: string;
+  changes: Array<SectionChange>;
+  /** Undone steps are kept for redo until a new change replaces them. */
+  undone: boolean;
+  /** Steps sharing a key in quick succession fold into one, e.g. typing. */
+  coalesce?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Where a run's generation stands. `awaiting-review` holds a draft for the
+ * user; `paused` and `completed` say why in `RunnerRecord.reason`.
+ */
+export type RunnerStatus =
+  | 'idle'
+  | 'generating'
+  | 'awaiting-review'
+  | 'paused'
+  | 'completed'
+  | 'failed';
+
+export type RunnerReason =
+  /** The user pressed Stop. */
+  | 'stopped'
+  /** The page was closed or reloaded mid-generation. */
+  | 'interrupted'
+  /** The next section would go over the run's budget. */
+  | 'budget'
+  | 'stop-token'
+  | 'max-sections';
+
+/** The generation runner's last state for a run, so a reload can resume. */
+export type RunnerRecord = {
+  runId: string;
+  bookId: string;
+  status: RunnerStatus;
+  /** The section being generated or awaiting review. */
+  sectionId?: string;
+  reason?: RunnerReason;
+  /** Message of the error that failed the last attempt. */
+  error?: string;
+  updatedAt: number;
+};
+
+export type SettingRecord = { key: string; value: unknown };
+
+class BDDatabase extends Dexie {
+  books!: Table<BookRecord>;
+  sections!: Table<SectionRecord>;
+  chunks!: Table<ChunkRecord>;
+  runs!: Table<RunRecord>;
+  chapters!: Table<ChapterRecord>;
+  usage!: Table<UsageRecord>;
+  presets!: Table<PromptPresetRecord>;
+  history!: Table<HistoryRecord, number>;
+  runners!: Table<RunnerRecord, string>;
+  settings!: Table<SettingRecord>;
+
+  constructor() {
+    super('book_distiller_db');
+    this.version(1).stores({
+      books: 'id, createdAt',
+      sections: 'id, bookId, order',
+      settings: 'key',
+    });
+    this.version(2).stores({
+      chunks: 'id, bookId',
+    });
+    this.version(3)
+      .stores({
+        runs: 'id, bookId, createdAt',
+        sections: 'id, bookId, runId, order',
+      })
+      .upgrade(async (tx) => {
+        // Existing sections become "Run 1" of their book, using the
+        // settings that were current in this browser.
+        const sections = tx.table<SectionRecord>('sections');
+        const bookIds = new Set(
+          (await sections.toArray()).map((s) => s.bookId),
+        );
+        for (const bookId of bookIds) {
+          const runId = crypto.randomUUID();
+          await tx.table<RunRecord>('runs').add({
+            id: runId,
+            bookId,
+            name: 'Run 1',
+            prompt: localStorage.getItem('bd_prompt') || DEFAULT_PROMPT,
+            provider: localStorage.getItem('bd_provider') || 'openai',
+            model: localStorage.getItem('bd_model') || 'gpt-4o-mini',
+            stopToken: DEFAULT_STOP_TOKEN,
+            maxSections: DEFAULT_MAX_SECTIONS,
+            createdAt: Date.now(),
+          });
+          await sections.where({ bookId }).modify({ runId });
+        }
+      });
+    this.version(4).stores({
+      chapters: 'id, bookId',
+    });
+    this.version(5).stores({
+      usage: 'id, bookId, runId',
+    });
+    this.version(6).stores({
+      presets: 'id, name',
+    });
+    this.version(7).stores({
+      history: '++seq, bookId, runId',
+    });
+    this.version(8).stores({
+      runners: 'runId, bookId',
+    });
+  }
+}
+
+export const db = new BDDatabase();
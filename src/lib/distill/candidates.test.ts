@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  addCandidate,
+  buildRegenerateUser,
+  candidatesOf,
+  editActiveCandidate,
+  selectCandidate,
+} from './candidates';
+
+describe('section candidates', () => {
+  const legacy = { content: '# One' };
+
+  test('treats a section without candidates as one candidate', () => {
+    expect(candidatesOf(legacy)).toEqual([{ content: '# One', createdAt: 0 }]);
+  });
+
+  test('adds a candidate and flips between them', () => {
+    const two = { ...legacy, ...addCandidate(legacy, { content: '# Two' }) };
+    expect(two.candidates.map((c) => c.content)).toEqual(['# One', '# Two']);
+    expect(two.activeCandidate).toBe(1);
+    expect(two.content).toBe('# Two');
+
+    const back = { ...two, ...selectCandidate(two, 0) };
+    expect(back.content).toBe('# One');
+    expect(back.activeCandidate).toBe(0);
+  });
+
+  test('edits only the active candidate', () => {
+    const two = { ...legacy, ...addCandidate(legacy, { content: '# Two' }) };
+    const first = { ...two, ...selectCandidate(two, 0) };
+    const edited = editActiveCandidate(first, '# One, edited');
+    expect(edited.candidates.map((c) => c.content)).toEqual([
+      '# One, edited',
+      '# Two',
+    ]);
+  });
+});
+
+describe('buildRegenerateUser', () => {
+  test('includes the previous version and the instruction', () => {
+    const user = buildRegenerateUser('BASE', '# Old', ' shorter intro ');
+    expect(user.startsWith('BASE')).toBe(true);
+    expect(user).toContain('<previous_version>\n# Old\n</previous_version>');
+    expect(user).toContain(
+      'Reviewer instruction for the new version: shorter intro',
+    );
+  });
+
+  test('omits the instruction line when none is given', () => {
+    expect(buildRegenerateUser('BASE', '# Old', '')).not.toContain(
+      'Reviewer instruction',
+    );
+  });
+});
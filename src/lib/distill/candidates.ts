@@ -0,0 +1,73 @@
+import type { SectionCandidate, SectionRecord } from '@/lib/db';
+
+type CandidateFields = Pick<
+  SectionRecord,
+  'content' | 'chunks' | 'candidates' | 'activeCandidate'
+>;
+
+/** Sections saved before candidates existed count as a single candidate. */
+export function candidatesOf(section: CandidateFields) {
+  return section.candidates?.length
+    ? section.candidates
+    : [{ content: section.content, chunks: section.chunks, createdAt: 0 }];
+}
+
+export function activeIndexOf(section: CandidateFields) {
+  const count = candidatesOf(section).length;
+  return Math.min(section.activeCandidate ?? count - 1, count - 1);
+}
+
+/** Appends a new candidate and makes it the active one. */
+export function addCandidate(
+  section: CandidateFields,
+  candidate: Omit<SectionCandidate, 'createdAt'>,
+) {
+  const candidates = [
+    ...candidatesOf(section),
+    { ...candidate, createdAt: Date.now() },
+  ];
+  return {
+    candidates,
+    activeCandidate: candidates.length - 1,
+    content: candidate.content,
+    chunks: candidate.chunks,
+  };
+}
+
+export function selectCandidate(section: CandidateFields, index: number) {
+  const candidates = candidatesOf(section);
+  const picked = candidates[index];
+  if (!picked) {
+    return {};
+  }
+  return {
+    candidates,
+    activeCandidate: index,
+    content: picked.content,
+    chunks: picked.chunks,
+  };
+}
+
+/** Keeps the active candidate in step with inline edits. */
+export function editActiveCandidate(section: CandidateFields, content: string) {
+  const active = activeIndexOf(section);
+  return {
+    content,
+    candidates: candidatesOf(section).map((c, i) =>
+      i === active ? { ...c, content } : c,
+    ),
+    activeCandidate: active,
+  };
+}
+
+/** Extends the usual next-section request into a rewrite of `previous`. */
+export function buildRegenerateUser(
+  base: string,
+  previous: string,
+  instruction: string,
+) {
+  const feedback = instruction.trim()
+    ? `\nReviewer instruction for the new version: ${instruction.trim()}`
+    : '';
+  return `${base}\n\nYou already wrote a version of this next section:\n<previous_version>\n${previous}\n</previous_version>\n\nWrite a new version of the same section, covering the same theme at the same point in the book. Do not simply repeat the previous wording.${feedback}`;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+
+import { chunkSizeFor, contextWindowFor, splitIntoChunks } from './chunking';
+
+describe('contextWindowFor', () => {
+  test('matches the most specific model prefix', () => {
+    expect(contextWindowFor('gpt-4o-mini')).toBe(128000);
+    expect(contextWindowFor('gpt-4')).toBe(8192);
+    expect(contextWindowFor('claude-3-5-sonnet-latest')).toBe(200000);
+    expect(contextWindowFor('gemini-1.5-pro')).toBe(2000000);
+  });
+
+  test('falls back for unknown models', () => {
+    expect(contextWindowFor('my-local-model')).toBe(32000);
+    expect(chunkSizeFor('my-local-model')).toBe(64000);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  test('covers the whole text with contiguous ranges', () => {
+    const text = Array.from(
+      { length: 40 },
+      (_, i) => `Paragraph ${i} has some words.`,
+    ).join('\n\n');
+    const chunks = splitIntoChunks(text, 200);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks.at(-1)?.end).toBe(text.length);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBe(chunks[i - 1].end);
+    }
+    for (const c of chunks) {
+      expect(c.end - c.start).toBeLessThanOrEqual(200);
+    }
+  });
+
+  test('cuts at paragraph breaks', () => {
+    const text = `${'a'.repeat(150)}\n\n${'b'.repeat(150)}`;
+    const chunks = splitIntoChunks(text, 200);
+    expect(chunks.map((c) => c.text)).toEqual([
+      'a'.repeat(150),
+      'b'.repeat(150),
+    ]);
+  });
+
+  test('hard-cuts text without any whitespace', () => {
+    const chunks = splitIntoChunks('x'.repeat(450), 200);
+    expect(chunks.map((c) => c.text.length)).toEqual([200, 200, 50]);
+  });
+});
@@ -0,0 +1,96 @@
+/** Rough chars-per-token ratio for English prose. */
+export const CHARS_PER_TOKEN = 4;
+
+/** Books longer than this are cut off unless long-book mode is on. */
+export const SINGLE_PASS_CHAR_LIMIT = 100000;
+
+const FALLBACK_CONTEXT_TOKENS = 32000;
+
+/** Context windows in tokens, matched by model-name prefix (longest first). */
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gpt-4.1', 1000000],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000],
+  ['claude', 200000],
+  ['gemini-1.5-pro', 2000000],
+  ['gemini', 1000000],
+  ['llama3', 8192],
+  ['llama-3', 128000],
+  ['mistral', 32000],
+  ['qwen', 32000],
+];
+
+export function contextWindowFor(model: string) {
+  const name = model.trim().toLowerCase();
+  const match = [...CONTEXT_WINDOWS]
+    .sort((a, b) => b[0].length - a[0].length)
+    .find(([prefix]) => name.startsWith(prefix));
+  return match?.[1] ?? FALLBACK_CONTEXT_TOKENS;
+}
+
+export const estimateTokens = (text: string) =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Characters of book text per chunk: half the context window, leaving room
+ * for the prompt and the notes the model writes back.
+ */
+export function chunkSizeFor(model: string) {
+  return Math.floor((contextWindowFor(model) / 2) * CHARS_PER_TOKEN);
+}
+
+export type TextChunk = {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+};
+
+const PARAGRAPH_BREAK = /\n\s*\n/g;
+
+/**
+ * Splits text into consecutive chunks of at most `maxChars`, cutting at the
+ * last paragraph break (or whitespace) before the limit where possible.
+ */
+export function splitIntoChunks(text: string, maxChars: number) {
+  const chunks: Array<TextChunk> = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    if (end < text.length) {
+      end = findBreak(text, start, end);
+    }
+    chunks.push({
+      index: chunks.length,
+      start,
+      end,
+      text: text.slice(start, end).trim(),
+    });
+    start = end;
+  }
+  return chunks;
+}
+
+function findBreak(text: string, start: number, limit: number) {
+  const slice = text.slice(start, limit);
+  // Don't accept a break in the first half; that would make tiny chunks
+  const minimum = Math.floor(slice.length / 2);
+
+  let paragraph = -1;
+  for (const m of slice.matchAll(PARAGRAPH_BREAK)) {
+    paragraph = m.index + m[0].length;
+  }
+  if (paragraph > minimum) {
+    return start + paragraph;
+  }
+  const space = slice.lastIndexOf(' ');
+  if (space > minimum) {
+    return start + space + 1;
+  }
+  return limit;
+}
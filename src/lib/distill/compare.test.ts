@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'vitest';
+
+import type { GenerateRequest, LLMProvider } from '@/lib/llm/types';
+
+import { type CompareResult, compareModels } from './compare';
+
+const messages = { system: 'sys', user: 'next section' };
+
+function provider(
+  id: string,
+  generate: (req: GenerateRequest) => Promise<string>,
+): LLMProvider {
+  return { id, label: id, defaultModel: 'm', fields: [], generate };
+}
+
+/** Streams a reply word by word, reporting usage at the end. */
+const replying = (reply: string) => (req: GenerateRequest) => {
+  for (const word of reply.split(' ')) {
+    req.onToken?.(`${word} `);
+  }
+  req.onUsage?.({ inputTokens: 1_000_000, outputTokens: 0 });
+  return Promise.resolve(reply);
+};
+
+describe('compareModels', () => {
+  test('sends the request to every target and times each one', async () => {
+    const providers: Record<string, LLMProvider> = {
+      a: provider('a', replying('## One\n\nFirst answer')),
+      b: provider('b', (req) => {
+        expect(req).toMatchObject({ model: 'local', ...messages });
+        expect(req.settings).toEqual({ apiKey: 'k' });
+        return replying('## Two')(req);
+      }),
+    };
+    let clock = 0;
+    const updates: Array<CompareResult> = [];
+    const usage: Array<string> = [];
+    const results = await compareModels(
+      [
+        { provider: 'a', model: 'gpt-4o-mini' },
+        { provider: 'b', model: 'local' },
+      ],
+      messages,
+      {
+        resolve: (id) => ({
+          provider: providers[id],
+          settings: { apiKey: 'k' },
+        }),
+        onUpdate: (i, r) => i === 0 && updates.push(r),
+        onUsage: (target) => usage.push(target.model),
+        now: () => {
+          clock += 100;
+          return clock;
+        },
+      },
+    );
+    expect(results).toEqual([
+      expect.objectContaining({
+        status: 'done',
+        text: '## One\n\nFirst answer',
+        latencyMs: 200,
+        cost: 0.15,
+      }),
+      expect.objectContaining({
+        status: 'done',
+        text: '## Two',
+        cost: undefined,
+      }),
+    ]);
+    expect(updates[0]).toMatchObject({ status: 'streaming', text: '## ' });
+    expect(usage).toEqual(['gpt-4o-mini', 'local']);
+  });
+
+  test('reports a failing or unknown provider in its own column', async () => {
+    const failure = new Error('bad key');
+    const providers: Record<string, LLMProvider> = {
+      ok: provider('ok', replying('Fine')),
+      broken: provider('broken', () => Promise.reject(failure)),
+    };
+    const results = await compareModels(
+      [
+        { provider: 'broken', model: 'x' },
+        { provider: 'ok', model: 'y' },
+        { provider: 'gone', model: 'z' },
+      ],
+      messages,
+      {
+        resolve: (id) =>
+          providers[id] && { provider: providers[id], settings: {} },
+      },
+    );
+    expect(results.map((r) => r.status)).toEqual(['failed', 'done', 'failed']);
+    expect(results[0].error).toBe(failure);
+    expect(String(results[2].error)).toContain('gone');
+  });
+
+  test('keeps what streamed when the comparison is stopped', async () => {
+    const controller = new AbortController();
+    const stalls = provider('s', (req) => {
+      req.onToken?.('Partial text');
+      controller.abort();
+      return Promise.reject(new Error('aborted'));
+    });
+    const [result] = await compareModels(
+      [{ provider: 's', model: 'm' }],
+      messages,
+      {
+        resolve: () => ({ provider: stalls, settings: {} }),
+        signal: controller.signal,
+      },
+    );
+    expect(result).toMatchObject({ status: 'done', text: 'Partial text' });
+  });
+});
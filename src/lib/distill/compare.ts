@@ -0,0 +1,109 @@
+import { costOf } from '@/lib/llm/pricing';
+import { generateWithRetry, type RetryStatus } from '@/lib/llm/retry';
+import type {
+  GenerateRequest,
+  LLMProvider,
+  ProviderSettings,
+  TokenUsage,
+} from '@/lib/llm/types';
+
+/** A provider and model pair to try the next section with. */
+export type CompareTarget = { provider: string; model: string };
+
+/** One column of a comparison, updated as its response streams in. */
+export type CompareResult = CompareTarget & {
+  status: 'streaming' | 'done' | 'failed';
+  text: string;
+  /** Milliseconds from the request to the end of the response. */
+  latencyMs?: number;
+  usage?: TokenUsage;
+  /** USD at list price; missing for models without a known price. */
+  cost?: number;
+  error?: unknown;
+};
+
+export const MAX_COMPARE_TARGETS = 3;
+
+type CompareMessages = Pick<GenerateRequest, 'system' | 'history' | 'user'>;
+
+type CompareOptions = {
+  /** The registered provider for an id, with the settings stored for it. */
+  resolve: (
+    id: string,
+  ) => { provider: LLMProvider; settings: ProviderSettings } | undefined;
+  signal?: AbortSignal;
+  /** Called with a column's latest state whenever it changes. */
+  onUpdate?: (index: number, result: CompareResult) => void;
+  onUsage?: (target: CompareTarget, usage: TokenUsage) => void;
+  onRetry?: (status: RetryStatus) => void;
+  now?: () => number;
+};
+
+async function runTarget(
+  target: CompareTarget,
+  messages: CompareMessages,
+  update: (result: CompareResult) => void,
+  { resolve, signal, onUsage, onRetry, now = Date.now }: CompareOptions,
+): Promise<CompareResult> {
+  const started = now();
+  let result: CompareResult = { ...target, status: 'streaming', text: '' };
+  const set = (change: Partial<CompareResult>) => {
+    result = { ...result, ...change };
+    update(result);
+  };
+  const resolved = resolve(target.provider);
+  if (!resolved) {
+    set({
+      status: 'failed',
+      error: new Error(`Unknown provider "${target.provider}"`),
+    });
+    return result;
+  }
+  try {
+    const text = await generateWithRetry(
+      resolved.provider,
+      {
+        model: target.model,
+        ...messages,
+        settings: resolved.settings,
+        signal,
+        onToken: (delta) => set({ text: result.text + delta }),
+        onUsage: (usage) => {
+          set({ usage, cost: costOf(target.model, usage) });
+          onUsage?.(target, usage);
+        },
+      },
+      { onRetry },
+    );
+    set({ status: 'done', text, latencyMs: now() - started });
+  } catch (error) {
+    // A stopped comparison keeps what each column had streamed
+    set(
+      signal?.aborted && result.text.trim()
+        ? { status: 'done', latencyMs: now() - started }
+        : { status: 'failed', error, latencyMs: now() - started },
+    );
+  }
+  return result;
+}
+
+/**
+ * Sends the same next-section request to every target at once. A target that
+ * fails is reported in its own column without stopping the others.
+ */
+export function compareModels(
+  targets: Array<CompareTarget>,
+  messages: CompareMessages,
+  options: CompareOptions,
+): Promise<Array<CompareResult>> {
+  return Promise.all(
+    targets.map((target, i) =>
+      runTarget(
+        target,
+        messages,
+        (result) => options.onUpdate?.(i, result),
+        options,
+      ),
+    ),
+  );
+}
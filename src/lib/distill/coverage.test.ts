@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  bookRegions,
+  buildFocusUser,
+  coverageMap,
+  indexRegions,
+} from './coverage';
+
+const chapters = [
+  { title: 'Whales', level: 1, start: 10 },
+  { title: 'Harpoons', level: 1, start: 110 },
+  { title: 'Sails', level: 2, start: 150 },
+  { title: 'Storms', level: 1, start: 210 },
+];
+
+const book = [
+  'Preface.\n'.padEnd(10),
+  'The sperm whale dives deep, hunting giant squid in the darkness below.'.padEnd(
+    100,
+  ),
+  'Blacksmiths forged each harpoon from iron; sailors sharpened the barbs.'.padEnd(
+    100,
+  ),
+  'Thunder rolled while lightning split the mast and waves flooded decks.'.padEnd(
+    100,
+  ),
+].join('');
+
+describe('bookRegions', () => {
+  test('maps top-level chapters and the text before them', () => {
+    expect(bookRegions(book.length, chapters)).toEqual([
+      { label: 'Opening', start: 0, end: 10 },
+      { label: 'Whales', start: 10, end: 110 },
+      { label: 'Harpoons', start: 110, end: 210 },
+      { label: 'Storms', start: 210, end: 310 },
+    ]);
+  });
+
+  test('falls back to equal slices without enough chapters', () => {
+    const regions = bookRegions(4000, chapters.slice(0, 2));
+    expect(regions).toHaveLength(40);
+    expect(regions[0]).toEqual({ label: '0–3%', start: 0, end: 100 });
+    expect(regions.at(-1)?.end).toBe(4000);
+  });
+});
+
+describe('coverageMap', () => {
+  const index = indexRegions(book, bookRegions(book.length, chapters));
+
+  test('scores quoted regions fully and word overlap by half', () => {
+    const coverage = coverageMap(index, [
+      {
+        id: 'a',
+        content: '> The sperm whale dives deep\n\nA study of squid hunting.',
+      },
+      { id: 'b', content: 'Lightning, thunder and flooded decks.' },
+    ]);
+    expect(coverage.map((r) => [r.label, r.score, r.sections])).toEqual([
+      ['Opening', 0, []],
+      ['Whales', 1, ['a']],
+      ['Harpoons', 0, []],
+      ['Storms', 0.5, ['b']],
+    ]);
+  });
+
+  test('counts the spans a section is known to draw on', () => {
+    const coverage = coverageMap(index, [
+      { id: 'c', content: 'Notes.', spans: [{ start: 120, end: 130 }] },
+    ]);
+    expect(coverage[2]).toMatchObject({ score: 1, sections: ['c'] });
+  });
+});
+
+test('buildFocusUser points the next section at the region', () => {
+  const user = buildFocusUser(
+    'BASE',
+    { label: 'Harpoons', start: 110, end: 210 },
+    book,
+  );
+  expect(user.startsWith('BASE')).toBe(true);
+  expect(user).toContain('"Harpoons"');
+  expect(user).toContain('<passage>\nBlacksmiths forged');
+});
@@ -0,0 +1,209 @@
+import type { ChapterRecord } from '@/lib/db';
+import type { TextSpan } from '@/lib/source';
+
+import { verifyQuotes } from './quotes';
+
+/** A stretch of the book the coverage map reports on. */
+export type Region = TextSpan & { label: string };
+
+export type RegionCoverage = Region & {
+  /** 0–1: 1 where a section quotes the region, less for word overlap alone. */
+  score: number;
+  /** Ids of the sections that draw on the region. */
+  sections: Array<string>;
+};
+
+type CoverageSection = {
+  id: string;
+  content: string;
+  /** Spans known to feed the section, e.g. its long-book chunks. */
+  spans?: Array<TextSpan>;
+};
+
+/** Equal slices used when the book has too few chapters to map. */
+const BINS = 40;
+const MIN_CHAPTERS = 3;
+/** Word overlap counts when it is at least this share of the best region's. */
+const OVERLAP_SHARE = 0.6;
+/** Weight of a region reached by word overlap only. */
+const OVERLAP_SCORE = 0.5;
+/** Characters of a focus region's opening quoted in the request. */
+const FOCUS_OPENING = 400;
+
+const TERM = /\p{L}{4,}/gu;
+const STOPWORDS = new Set(
+  `that this with from have were they their them there which would about been
+  what when more some into will your than then only other could also these
+  those such very just over most like even being because where after much many
+  must should said upon while each made make does both between through
+  before under again same here well still every might shall himself herself
+  itself themselves another against without within during whom whose among`
+    .split(/\s+/)
+    .filter(Boolean),
+);
+
+/**
+ * Regions to map: the book's top-level chapters when it has enough of them,
+ * each running to the next one's start, else equal slices of the text.
+ */
+export function bookRegions(
+  textLength: number,
+  chapters: Array<Pick<ChapterRecord, 'title' | 'level' | 'start'>>,
+): Array<Region> {
+  const top = Math.min(...chapters.map((c) => c.level));
+  const starts = chapters
+    .filter((c) => c.level === top && c.start < textLength)
+    .sort((a, b) => a.start - b.start);
+  if (starts.length >= MIN_CHAPTERS) {
+    const regions = starts.map((c, i) => ({
+      label: c.title,
+      start: c.start,
+      end: starts[i + 1]?.start ?? textLength,
+    }));
+    return starts[0].start > 0
+      ? [{ label: 'Opening', start: 0, end: starts[0].start }, ...regions]
+      : regions;
+  }
+  const size = Math.ceil(textLength / BINS);
+  const regions: Array<Region> = [];
+  for (let start = 0; start < textLength; start += size) {
+    const end = Math.min(start + size, textLength);
+    regions.push({
+      label: `${Math.round((start / textLength) * 100)}–${Math.round((end / textLength) * 100)}%`,
+      start,
+      end,
+    });
+  }
+  return regions;
+}
+
+function terms(text: string) {
+  const counts = new Map<string, number>();
+  for (const [word] of text.toLowerCase().matchAll(TERM)) {
+    if (!STOPWORDS.has(word)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/** The regions with their vocabulary, built once per book. */
+export type RegionIndex = {
+  text: string;
+  regions: Array<Region>;
+  terms: Array<Set<string>>;
+  /** How rare each word is across regions; 0 for words in all of them. */
+  idf: Map<string, number>;
+};
+
+export function indexRegions(
+  text: string,
+  regions: Array<Region>,
+): RegionIndex {
+  const sets = regions.map(
+    (r) => new Set(terms(text.slice(r.start, r.end)).keys()),
+  );
+  const df = new Map<string, number>();
+  for (const set of sets) {
+    for (const term of set) {
+      df.set(term, (df.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = new Map<string, number>();
+  for (const [term, n] of df) {
+    idf.set(term, Math.log(regions.length / n));
+  }
+  return { text, regions, terms: sets, idf };
+}
+
+/** Regions whose distinctive words the section shares most. */
+function overlapRegions(index: RegionIndex, content: string) {
+  const words = [...terms(content).keys()].filter(
+    (t) => (index.idf.get(t) ?? 0) > 0,
+  );
+  const scores = index.terms.map((set) =>
+    words.reduce(
+      (sum, t) => sum + (set.has(t) ? (index.idf.get(t) ?? 0) : 0),
+      0,
+    ),
+  );
+  const best = Math.max(0, ...scores);
+  return best > 0
+    ? scores.flatMap((s, i) => (s >= best * OVERLAP_SHARE ? [i] : []))
+    : [];
+}
+
+const overlaps = (region: TextSpan, span: TextSpan) =>
+  span.start < region.end && span.end > region.start;
+
+type Drawn = { quoted: Array<TextSpan>; overlap: Array<number> };
+
+// Per-section results by content, kept per index since few sections change
+// between two maps
+const drawnCache = new WeakMap<RegionIndex, Map<string, Drawn>>();
+
+/** Where a section's quotes were found, and the regions it shares words with. */
+function drawnOn(index: RegionIndex, content: string): Drawn {
+  let cache = drawnCache.get(index);
+  if (!cache) {
+    cache = new Map();
+    drawnCache.set(index, cache);
+  }
+  let drawn = cache.get(content);
+  if (!drawn) {
+    drawn = {
+      quoted: verifyQuotes(content, index.text).flatMap((q) =>
+        q.start !== undefined && q.end !== undefined
+          ? [{ start: q.start, end: q.end }]
+          : [],
+      ),
+      overlap: overlapRegions(index, content),
+    };
+    cache.set(content, drawn);
+  }
+  return drawn;
+}
+
+/**
+ * How much of each region the sections draw on: a region a section quotes
+ * (or that holds one of its spans) counts fully, one that only shares its
+ * distinctive words counts half.
+ */
+export function coverageMap(
+  index: RegionIndex,
+  sections: Array<CoverageSection>,
+): Array<RegionCoverage> {
+  const coverage = index.regions.map((r) => ({
+    ...r,
+    score: 0,
+    sections: [] as Array<string>,
+  }));
+  const mark = (i: number, id: string, score: number) => {
+    const region = coverage[i];
+    region.score = Math.max(region.score, score);
+    if (!region.sections.includes(id)) {
+      region.sections.push(id);
+    }
+  };
+  for (const section of sections) {
+    const { quoted, overlap } = drawnOn(index, section.content);
+    const spans = [...quoted, ...(section.spans ?? [])];
+    for (const [i, region] of coverage.entries()) {
+      if (spans.some((span) => overlaps(region, span))) {
+        mark(i, section.id, 1);
+      }
+    }
+    for (const i of overlap) {
+      mark(i, section.id, OVERLAP_SCORE);
+    }
+  }
+  return coverage;
+}
+
+/** Extends the usual next-section request to focus on an uncovered region. */
+export function buildFocusUser(base: string, region: Region, bookText: string) {
+  const text = bookText.slice(region.start, region.end).trim();
+  const opening =
+    text.length > FOCUS_OPENING ? `${text.slice(0, FOCUS_OPENING)}…` : text;
+  return `${base}\n\nEarlier sections have not covered this part of the book, "${region.label}", which begins:\n<passage>\n${opening}\n</passage>\n\nFocus the next section on this part of the book.`;
+}
@@ -0,0 +1,29 @@
+export const DEFAULT_STOP_TOKEN = '<end_of_book>';
+
+export const DEFAULT_MAX_SECTIONS = 12;
+
+export const DEFAULT_PROMPT = `Your Mission:
+Your mission is to act as an immersive guide to a book I provide. You will embody the author/narrator's voice and generate a series of modular, in-depth sections exploring the book's core themes. The final goal is for me to be able to combine all of your responses into a single, cohesive, and seamlessly flowing document that feels like a standalone analysis written by the author.
+You are not a summarizer; you are a deep-dive analyst and storyteller. Depth, detail, and the generous use of memorable excerpts are far more important than conciseness.
+
+Our Interaction Protocol:
+* To begin, I will provide you with the book content. 
+* You will generate the first section based on the book's most foundational theme.
+* For every subsequent part, I will simply reply with the word: "Next".
+* When you receive "Next", you must autonomously determine the next logical theme based on the book's narrative arc. You will then generate the next complete section according to the structure above, ensuring your introductory paragraph creates a perfect transition from the section you just wrote.
+* IMPORTANT! When all sections have been generated, only output "<end_of_book>" as your response to signal that whole book has been processed.   `;
+
+/**
+ * User message sent for every section. `{{table_of_contents}}` carries its own
+ * surrounding blank lines so the message reads the same without chapters.
+ */
+export const DEFAULT_USER_TEMPLATE = `Book Title: {{title}}
+Author: {{author}}
+{{table_of_contents}}
+Full book text (or extract):
+{{book_text}}
+
+Previously accepted sections (for continuity):
+{{history}}
+
+Generate the next section according to the protocol above. Then end if appropriate with the stop token: {{stop_token}}`;
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'vitest';
+
+import { splitIntoChunks } from './chunking';
+import { DEFAULT_PROMPT, DEFAULT_USER_TEMPLATE } from './defaults';
+import {
+  DEFAULT_SECTION_TOKENS,
+  estimateCall,
+  estimateNextSection,
+  estimateNotesSection,
+  exceedsBudget,
+  expectedSectionTokens,
+  sumEstimates,
+} from './estimate';
+
+describe('estimateCall', () => {
+  test('counts input characters and prices known models', () => {
+    const estimate = estimateCall('gpt-4o-mini', 'x'.repeat(4000), 500);
+    expect(estimate.inputTokens).toBe(1000);
+    expect(estimate.outputTokens).toBe(500);
+    expect(estimate.cost).toBeCloseTo((1000 * 0.15 + 500 * 0.6) / 1_000_000);
+  });
+
+  test('leaves the cost unknown for unpriced models', () => {
+    expect(estimateCall('llama3.1', 'hello', 10).cost).toBeUndefined();
+    expect(
+      sumEstimates([
+        estimateCall('gpt-4o', 'a', 1),
+        estimateCall('llama3.1', 'b', 1),
+      ]).cost,
+    ).toBeUndefined();
+  });
+});
+
+describe('expectedSectionTokens', () => {
+  test('averages accepted sections, with a default before the first', () => {
+    expect(expectedSectionTokens('', 0)).toBe(DEFAULT_SECTION_TOKENS);
+    expect(expectedSectionTokens('x'.repeat(8000), 2)).toBe(1000);
+  });
+});
+
+describe('estimateNotesSection', () => {
+  test('adds pending notes calls and the notes digest', () => {
+    const estimate = estimateNotesSection({
+      model: 'gpt-4o',
+      notesInputs: ['x'.repeat(400), 'x'.repeat(400)],
+      sectionInput: 'x'.repeat(40),
+      chunkCount: 3,
+      wordBudget: 150,
+      outputTokens: 1000,
+    });
+    // Two notes calls of 100 in / 200 out, then 10 + 3 × 200 in / 1000 out
+    expect(estimate.inputTokens).toBe(200 + 610);
+    expect(estimate.outputTokens).toBe(400 + 1000);
+    expect(estimate.cost).toBeCloseTo((810 * 2.5 + 1400 * 10) / 1_000_000);
+  });
+});
+
+describe('estimateNextSection', () => {
+  const bookText = 'word '.repeat(4000);
+  const inputs = {
+    model: 'gpt-4o',
+    prompt: DEFAULT_PROMPT,
+    userTemplate: DEFAULT_USER_TEMPLATE,
+    info: { title: 'Book', author: 'Author' },
+    bookText,
+    stopToken: '<END>',
+    history: '',
+    acceptedCount: 0,
+  };
+
+  test('sends the whole book without chunks', () => {
+    const estimate = estimateNextSection(inputs);
+    expect(estimate.inputTokens).toBeGreaterThan(bookText.length / 4);
+    expect(estimate.outputTokens).toBe(DEFAULT_SECTION_TOKENS);
+  });
+
+  test('counts only the chunks without notes yet', () => {
+    const chunks = splitIntoChunks(bookText, 5000);
+    const pending = estimateNextSection({ ...inputs, chunks });
+    const noted = estimateNextSection({
+      ...inputs,
+      chunks,
+      notedChunks: new Set(chunks.map((c) => c.index)),
+    });
+    expect(noted.inputTokens).toBeLessThan(pending.inputTokens);
+    expect(noted.outputTokens).toBe(DEFAULT_SECTION_TOKENS);
+  });
+});
+
+describe('exceedsBudget', () => {
+  const estimate = { inputTokens: 0, outputTokens: 0, cost: 0.3 };
+
+  test('compares spent plus estimate against the budget', () => {
+    expect(exceedsBudget(1, 0.6, estimate)).toBe(false);
+    expect(exceedsBudget(1, 0.8, estimate)).toBe(true);
+  });
+
+  test('never blocks without a budget or a known cost', () => {
+    expect(exceedsBudget(undefined, 100, estimate)).toBe(false);
+    expect(exceedsBudget(1, 5, { inputTokens: 0, outputTokens: 0 })).toBe(
+      false,
+    );
+  });
+});
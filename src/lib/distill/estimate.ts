@@ -0,0 +1,167 @@
+import { costOf } from '@/lib/llm/pricing';
+import type { TokenUsage } from '@/lib/llm/types';
+
+import { estimateTokens, type TextChunk } from './chunking';
+import {
+  buildChunkNotesUser,
+  buildNotesSectionUser,
+  CHUNK_NOTES_SYSTEM,
+  notesWordBudget,
+} from './long-book';
+import {
+  type BookInfo,
+  buildFullTextSectionUser,
+  renderSystemPrompt,
+} from './prompts';
+
+/** Expected section length before any section has been accepted. */
+export const DEFAULT_SECTION_TOKENS = 1500;
+
+/** Tokens and cost (USD, when the model is priced) of one or more calls. */
+export type CallEstimate = TokenUsage & { cost?: number };
+
+export function estimateCall(
+  model: string,
+  input: string,
+  outputTokens: number,
+): CallEstimate {
+  const usage = { inputTokens: estimateTokens(input), outputTokens };
+  return { ...usage, cost: costOf(model, usage) };
+}
+
+/** Adds estimates up; the cost is unknown if any part's cost is. */
+export function sumEstimates(estimates: Array<CallEstimate>): CallEstimate {
+  return estimates.reduce<CallEstimate>(
+    (sum, e) => ({
+      inputTokens: sum.inputTokens + e.inputTokens,
+      outputTokens: sum.outputTokens + e.outputTokens,
+      cost:
+        sum.cost === undefined || e.cost === undefined
+          ? undefined
+          : sum.cost + e.cost,
+    }),
+    { inputTokens: 0, outputTokens: 0, cost: 0 },
+  );
+}
+
+/** Mean length of the sections accepted so far, as the next one's guess. */
+export function expectedSectionTokens(history: string, count: number) {
+  return count
+    ? Math.ceil(estimateTokens(history) / count)
+    : DEFAULT_SECTION_TOKENS;
+}
+
+/** Tokens of notes a chunk produces at its word budget (~0.75 words/token). */
+export const notesTokens = (wordBudget: number) => Math.ceil(wordBudget / 0.75);
+
+/**
+ * Long-book mode: the notes calls for chunks that have none yet, then the
+ * section call, whose input carries every chunk's notes on top of
+ * `sectionInput`.
+ */
+export function estimateNotesSection({
+  model,
+  notesInputs,
+  sectionInput,
+  chunkCount,
+  wordBudget,
+  outputTokens,
+}: {
+  model: string;
+  /** System and user message of each notes call still to be made. */
+  notesInputs: Array<string>;
+  /** System and user message of the section call, without the notes. */
+  sectionInput: string;
+  chunkCount: number;
+  wordBudget: number;
+  outputTokens: number;
+}) {
+  const notes = notesInputs.map((input) =>
+    estimateCall(model, input, notesTokens(wordBudget)),
+  );
+  const section = estimateCall(model, sectionInput, outputTokens);
+  const digest = chunkCount * notesTokens(wordBudget);
+  return sumEstimates([
+    ...notes,
+    {
+      ...section,
+      inputTokens: section.inputTokens + digest,
+      cost: costOf(model, {
+        inputTokens: section.inputTokens + digest,
+        outputTokens,
+      }),
+    },
+  ]);
+}
+
+/**
+ * Pre-flight estimate of the section after `history`, built from the same
+ * prompts it will be sent with. In long-book mode (`chunks` given) it adds
+ * the notes calls for the chunks not in `notedChunks` yet.
+ */
+export function estimateNextSection({
+  model,
+  prompt,
+  userTemplate,
+  info,
+  bookText,
+  stopToken,
+  history,
+  acceptedCount,
+  chunks,
+  notedChunks = new Set(),
+}: {
+  model: string;
+  prompt: string;
+  userTemplate: string;
+  info: BookInfo;
+  bookText: string;
+  stopToken: string;
+  /** Accepted sections so far, joined. */
+  history: string;
+  acceptedCount: number;
+  chunks?: Array<TextChunk>;
+  notedChunks?: Set<number>;
+}) {
+  const outputTokens = expectedSectionTokens(history, acceptedCount);
+  const context = { history, stopToken, sectionNumber: acceptedCount + 1 };
+  const system = renderSystemPrompt(prompt, info, context);
+  if (!chunks) {
+    const user = buildFullTextSectionUser(
+      userTemplate,
+      info,
+      bookText,
+      context,
+    );
+    return estimateCall(model, system + user, outputTokens);
+  }
+  const wordBudget = notesWordBudget(model, chunks.length);
+  return estimateNotesSection({
+    model,
+    notesInputs: chunks
+      .filter((c) => !notedChunks.has(c.index))
+      .map(
+        (c) =>
+          CHUNK_NOTES_SYSTEM +
+          buildChunkNotesUser(info, c, chunks.length, wordBudget),
+      ),
+    sectionInput:
+      system + buildNotesSectionUser(userTemplate, info, [], context),
+    chunkCount: chunks.length,
+    wordBudget,
+    outputTokens,
+  });
+}
+
+/** Whether spending `estimate` on top of `spent` (USD) goes over `budget`. */
+export function exceedsBudget(
+  budget: number | undefined,
+  spent: number,
+  estimate: CallEstimate,
+) {
+  return (
+    budget !== undefined &&
+    estimate.cost !== undefined &&
+    spent + estimate.cost > budget
+  );
+}
@@ -0,0 +1,26 @@
+import { describe, expect, test } from 'vitest';
+
+import { extractChunkRefs, notesWordBudget } from './long-book';
+
+describe('extractChunkRefs', () => {
+  test('strips the marker and returns sorted chunk numbers', () => {
+    expect(
+      extractChunkRefs('# Theme\n\nBody text.\n<!-- chunks: 4, 1, 4 -->'),
+    ).toEqual({ content: '# Theme\n\nBody text.', chunks: [1, 4] });
+  });
+
+  test('leaves sections without a marker untouched', () => {
+    expect(extractChunkRefs('# Theme\n\nBody')).toEqual({
+      content: '# Theme\n\nBody',
+      chunks: [],
+    });
+  });
+});
+
+describe('notesWordBudget', () => {
+  test('shrinks as the number of chunks grows, within bounds', () => {
+    expect(notesWordBudget('gpt-4o-mini', 2)).toBe(1500);
+    expect(notesWordBudget('gpt-4o-mini', 40)).toBe(1200);
+    expect(notesWordBudget('gpt-4', 100)).toBe(150);
+  });
+});
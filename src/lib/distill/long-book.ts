@@ -0,0 +1,81 @@
+import { contextWindowFor } from './chunking';
+import {
+  type BookInfo,
+  bookHeader,
+  chapterTitlesInRange,
+  type SectionContext,
+  sectionVariables,
+} from './prompts';
+import { renderTemplate } from './templates';
+
+const CHUNK_REFS = /<!--\s*chunks?\s*:\s*([\d,\s]*)-->/gi;
+const DIGITS = /\d+/g;
+
+/** Notes for one chunk, with the text range they were written from. */
+export type ChunkNotes = { notes: string; start: number; end: number };
+
+const CHUNK_REFS_INSTRUCTION =
+  'On the last line of the section, before any stop token, list the chunks you drew on exactly like this: <!-- chunks: 1, 4 -->';
+
+export const CHUNK_NOTES_SYSTEM = `You are taking reading notes on one part of a longer book. A writer will later distill the whole book using only your notes, so capture everything that matters in this part: the main ideas and arguments, key events, characters or examples, how the part connects to what comes before and after, and a handful of the most memorable passages quoted word for word in quotation marks. Write compact Markdown bullet points. Do not add commentary of your own.`;
+
+/**
+ * Word budget per chunk so that the notes for every chunk fit together in
+ * roughly half of the model's context window.
+ */
+export function notesWordBudget(model: string, chunkCount: number) {
+  const tokens = contextWindowFor(model) / 2 / Math.max(chunkCount, 1);
+  // ~0.75 words per token
+  return Math.max(150, Math.min(1500, Math.floor(tokens * 0.75)));
+}
+
+const chunkLabel = (info: BookInfo, start: number, end: number) => {
+  const titles = chapterTitlesInRange(info.chapters ?? [], start, end);
+  return titles.length ? ` (chapters: ${titles.join('; ')})` : '';
+};
+
+export function buildChunkNotesUser(
+  info: BookInfo,
+  chunk: { index: number; start: number; end: number; text: string },
+  chunkCount: number,
+  wordBudget: number,
+) {
+  return `${bookHeader(info)}\n\nThis is part ${chunk.index + 1} of ${chunkCount}${chunkLabel(info, chunk.start, chunk.end)}. Keep your notes under ${wordBudget} words.\n\n${chunk.text}`;
+}
+
+/**
+ * Section message for long-book mode: the template with the notes digest as
+ * `{{book_text}}`, followed by the instruction to cite chunks.
+ */
+export function buildNotesSectionUser(
+  template: string,
+  info: BookInfo,
+  notes: Array<ChunkNotes>,
+  context: SectionContext,
+) {
+  const digest = notes
+    .map(
+      (n, i) =>
+        `[Chunk ${i + 1}]${chunkLabel(info, n.start, n.end)}\n${n.notes.trim()}`,
+    )
+    .join('\n\n');
+  const bookText = `The book is too long to include in full. Below are reading notes covering the whole book in ${notes.length} consecutive chunks, in order:\n\n${digest}`;
+  return `${renderTemplate(template, sectionVariables(info, bookText, context))}\n\n${CHUNK_REFS_INSTRUCTION}`;
+}
+
+/**
+ * Removes `<!-- chunks: ... -->` markers from a generated section and returns
+ * the distinct chunk numbers they named.
+ */
+export function extractChunkRefs(text: string) {
+  const chunks = new Set<number>();
+  const content = text
+    .replace(CHUNK_REFS, (_, list: string) => {
+      for (const n of list.match(DIGITS) ?? []) {
+        chunks.add(Number(n));
+      }
+      return '';
+    })
+    .trim();
+  return { content, chunks: [...chunks].sort((a, b) => a - b) };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  makeRoomAfter,
+  mergeSections,
+  moveSection,
+  nextOrder,
+  splitPoints,
+  splitSection,
+} from './outline';
+
+describe('moveSection', () => {
+  // Accepted sections; a draft elsewhere holds order 3
+  const accepted = [
+    { id: 'a', order: 1 },
+    { id: 'b', order: 2 },
+    { id: 'c', order: 4 },
+  ];
+
+  test('reuses the existing order slots', () => {
+    expect(moveSection(accepted, 2, 0)).toEqual([
+      { id: 'c', order: 1 },
+      { id: 'a', order: 2 },
+      { id: 'b', order: 4 },
+    ]);
+  });
+
+  test('returns only the orders that changed', () => {
+    expect(moveSection(accepted, 0, 1)).toEqual([
+      { id: 'b', order: 1 },
+      { id: 'a', order: 2 },
+    ]);
+    expect(moveSection(accepted, 1, 1)).toEqual([]);
+  });
+});
+
+describe('merging and splitting', () => {
+  test('merges content and chunks into one fresh candidate', () => {
+    const merged = mergeSections(
+      { content: '# One\n\nFirst.\n', chunks: [3, 1] },
+      { content: '\n# Two\n\nSecond.', chunks: [2, 3] },
+    );
+    expect(merged.content).toBe('# One\n\nFirst.\n\n# Two\n\nSecond.');
+    expect(merged.chunks).toEqual([1, 2, 3]);
+    expect(merged.candidates).toHaveLength(1);
+    expect(merged.activeCandidate).toBe(0);
+    expect(mergeSections({ content: 'a' }, { content: 'b' }).chunks).toBe(
+      undefined,
+    );
+  });
+
+  test('offers inner headings outside code as split points', () => {
+    const content =
+      '# Title\n\nIntro\n\n```\n# not a heading\n```\n\n## Part two\n\nMore';
+    expect(splitPoints(content)).toEqual([
+      { offset: content.indexOf('## Part'), heading: 'Part two' },
+    ]);
+  });
+
+  test('splits in two and refuses an empty half', () => {
+    const section = { content: '# A\n\nOne\n\n# B\n\nTwo', chunks: [4] };
+    const halves = splitSection(section, section.content.indexOf('# B'));
+    expect(halves?.map((h) => h.content)).toEqual(['# A\n\nOne', '# B\n\nTwo']);
+    expect(halves?.[1].chunks).toEqual([4]);
+    expect(splitSection(section, 0)).toBeNull();
+    expect(splitSection(section, section.content.length)).toBeNull();
+  });
+
+  test('makes room after a section and keeps new orders unique', () => {
+    const sections = [
+      { id: 'a', order: 1 },
+      { id: 'b', order: 2 },
+      { id: 'c', order: 5 },
+    ];
+    expect(makeRoomAfter(sections, 1)).toEqual([
+      { id: 'b', order: 3 },
+      { id: 'c', order: 6 },
+    ]);
+    expect(nextOrder(sections)).toBe(6);
+    expect(nextOrder([])).toBe(1);
+  });
+});
@@ -0,0 +1,121 @@
+import type { SectionRecord } from '@/lib/db';
+
+type Ordered = Pick<SectionRecord, 'id' | 'order'>;
+type Splittable = Pick<SectionRecord, 'content' | 'chunks'>;
+
+export type OrderChange = { id: string; order: number };
+
+/** A place a section can be split: the start of a heading line after the first. */
+export type SplitPoint = { offset: number; heading: string };
+
+const HEADING_LINE = /^ {0,3}#{1,6}\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const TITLE = /^#\s+(.+)$/m;
+const LEADING_HASHES = /^#+\s*/;
+
+/** A section's title: its first H1, else the start of its first line. */
+export function parseHeading(md: string) {
+  const m = md.match(TITLE);
+  if (m) {
+    return m[1].trim();
+  }
+  return (
+    (md.split('\n')[0] || '').replace(LEADING_HASHES, '').slice(0, 120) ||
+    'Untitled'
+  );
+}
+
+/** One past the highest order, so it stays unique after merges and deletes. */
+export function nextOrder(sections: Array<Pick<SectionRecord, 'order'>>) {
+  return sections.reduce((max, s) => Math.max(max, s.order), 0) + 1;
+}
+
+/**
+ * Moves `ordered[from]` to position `to`. The list's own order values are
+ * handed out again in the new sequence, so sections outside it (drafts,
+ * discarded ones) keep their places. Only changed orders are returned.
+ */
+export function moveSection(
+  ordered: Array<Ordered>,
+  from: number,
+  to: number,
+): Array<OrderChange> {
+  const moved = [...ordered];
+  const [item] = moved.splice(from, 1);
+  if (!item) {
+    return [];
+  }
+  moved.splice(to, 0, item);
+  return moved
+    .map((s, i) => ({ id: s.id, order: ordered[i].order }))
+    .filter((change, i) => change.order !== moved[i].order);
+}
+
+/** Content with a single fresh candidate; old versions no longer fit it. */
+function rewritten(content: string, chunks: Array<number> | undefined) {
+  return {
+    content,
+    chunks,
+    candidates: [{ content, chunks, createdAt: Date.now() }],
+    activeCandidate: 0,
+  };
+}
+
+/** Joins a section with the one after it, keeping the chunks of both. */
+export function mergeSections(first: Splittable, second: Splittable) {
+  const chunks =
+    first.chunks || second.chunks
+      ? [...new Set([...(first.chunks ?? []), ...(second.chunks ?? [])])].sort(
+          (a, b) => a - b,
+        )
+      : undefined;
+  return rewritten(
+    `${first.content.trimEnd()}\n\n${second.content.trimStart()}`,
+    chunks,
+  );
+}
+
+/** Headings inside a section, outside code fences, that could start a new one. */
+export function splitPoints(content: string): Array<SplitPoint> {
+  const points: Array<SplitPoint> = [];
+  let offset = 0;
+  let inFence = false;
+  let seenText = false;
+  for (const line of content.split('\n')) {
+    const heading = line.match(HEADING_LINE);
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+    } else if (heading && !inFence && seenText) {
+      points.push({ offset, heading: heading[1] });
+    }
+    seenText ||= line.trim() !== '';
+    offset += line.length + 1;
+  }
+  return points;
+}
+
+/**
+ * The two halves of a section split at `offset`, or null when either would
+ * be empty. Both keep the section's chunks.
+ */
+export function splitSection(section: Splittable, offset: number) {
+  const before = section.content.slice(0, offset).trimEnd();
+  const after = section.content.slice(offset).trim();
+  if (!(before && after)) {
+    return null;
+  }
+  return [
+    rewritten(before, section.chunks),
+    rewritten(after, section.chunks),
+  ] as const;
+}
+
+/** Orders that make room for a new section right after `order`. */
+export function makeRoomAfter(
+  sections: Array<Ordered>,
+  order: number,
+): Array<OrderChange> {
+  return sections
+    .filter((s) => s.order > order)
+    .map((s) => ({ id: s.id, order: s.order + 1 }));
+}
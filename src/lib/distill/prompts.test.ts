@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'vitest';
+
+import { buildConversation, NEXT_TURN } from './prompts';
+
+describe('buildConversation', () => {
+  test('sends the book message alone for the first section', () => {
+    expect(buildConversation('Book text', [])).toEqual({
+      history: [],
+      user: 'Book text',
+    });
+  });
+
+  test('alternates accepted sections with "Next" turns', () => {
+    expect(buildConversation('Book text', ['## One', '## Two'])).toEqual({
+      history: [
+        { role: 'user', content: 'Book text' },
+        { role: 'assistant', content: '## One' },
+        { role: 'user', content: NEXT_TURN },
+        { role: 'assistant', content: '## Two' },
+      ],
+      user: NEXT_TURN,
+    });
+  });
+});
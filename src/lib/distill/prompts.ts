@@ -0,0 +1,121 @@
+import type { ChapterRecord } from '@/lib/db';
+import { chaptersInRange } from '@/lib/extract/chapters';
+import type { ChatMessage } from '@/lib/llm/types';
+
+import { SINGLE_PASS_CHAR_LIMIT } from './chunking';
+import { renderTemplate, type TemplateVariables } from './templates';
+
+export type PromptChapter = Pick<
+  ChapterRecord,
+  'title' | 'level' | 'start' | 'end'
+>;
+
+export type BookInfo = {
+  title: string;
+  author: string;
+  chapters?: Array<PromptChapter>;
+};
+
+export function formatTableOfContents(chapters: Array<PromptChapter>) {
+  return chapters
+    .map((c) => `${'  '.repeat(Math.max(c.level - 1, 0))}- ${c.title}`)
+    .join('\n');
+}
+
+/** Top-level chapter titles overlapping a text range, for labelling chunks. */
+export function chapterTitlesInRange(
+  chapters: Array<PromptChapter>,
+  start: number,
+  end: number,
+) {
+  const overlapping = chaptersInRange(chapters, start, end);
+  const top = Math.min(...overlapping.map((c) => c.level));
+  return overlapping.filter((c) => c.level === top).map((c) => c.title);
+}
+
+/** Title, author and (when known) the book's table of contents. */
+export function bookHeader({ title, author, chapters }: BookInfo) {
+  const header = `Book Title: ${title || '(unknown)'}\nAuthor: ${author || '(unknown)'}`;
+  return chapters?.length
+    ? `${header}\n\nTable of contents:\n${formatTableOfContents(chapters)}`
+    : header;
+}
+
+/** Where in the run the next section is being written. */
+export type SectionContext = {
+  /** Accepted sections so far, joined. */
+  history: string;
+  stopToken: string;
+  /** 1-based number of the section to write. */
+  sectionNumber: number;
+};
+
+/** Template variables for a section message; `bookText` is used as given. */
+export function sectionVariables(
+  { title, author, chapters }: BookInfo,
+  bookText: string,
+  { history, stopToken, sectionNumber }: SectionContext,
+): TemplateVariables {
+  return {
+    title: title || '(unknown)',
+    author: author || '(unknown)',
+    table_of_contents: chapters?.length
+      ? `\nTable of contents:\n${formatTableOfContents(chapters)}\n`
+      : '',
+    book_text: bookText,
+    history,
+    stop_token: stopToken,
+    section_number: String(sectionNumber),
+  };
+}
+
+/**
+ * The system prompt with the book's details filled in. `{{book_text}}` and
+ * `{{history}}` are left as written: they belong in the user message.
+ */
+export function renderSystemPrompt(
+  template: string,
+  info: BookInfo,
+  context: SectionContext,
+) {
+  return renderTemplate(template, {
+    ...sectionVariables(info, '', context),
+    book_text: undefined,
+    history: undefined,
+  });
+}
+
+export function buildFullTextSectionUser(
+  template: string,
+  info: BookInfo,
+  bookText: string,
+  context: SectionContext,
+) {
+  return renderTemplate(
+    template,
+    sectionVariables(info, bookText.slice(0, SINGLE_PASS_CHAR_LIMIT), context),
+  );
+}
+
+/** The user's reply asking for each section after the first. */
+export const NEXT_TURN = 'Next';
+
+/**
+ * Conversation mode: the first message (with the book) once, then each
+ * accepted section as an assistant turn answered with "Next", as the default
+ * prompt's protocol describes.
+ */
+export function buildConversation(
+  first: string,
+  previous: Array<string>,
+): { history: Array<ChatMessage>; user: string } {
+  if (!previous.length) {
+    return { history: [], user: first };
+  }
+  const turns: Array<ChatMessage> = previous.flatMap((content) => [
+    { role: 'user', content: NEXT_TURN },
+    { role: 'assistant', content },
+  ]);
+  turns[0] = { role: 'user', content: first };
+  return { history: turns, user: NEXT_TURN };
+}
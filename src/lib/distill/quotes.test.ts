@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  extractQuotes,
+  quoteCounts,
+  verifyQuote,
+  verifyQuotes,
+} from './quotes';
+
+const book = `Chapter One
+
+It was a bright cold day in April, and the clocks were
+striking thirteen. Winston Smith, his chin nuzzled into his breast in an
+effort to escape the vile wind, slipped quickly through the glass doors.
+
+The hallway smelt of boiled cabbage and old rag mats. At one end of it a
+coloured poster, too large for indoor display, had been tacked to the wall.`;
+
+describe('extractQuotes', () => {
+  test('finds block quotes and longer inline quotations outside code', () => {
+    const section = [
+      '# Opening',
+      '',
+      '> It was a bright cold day',
+      '> in *April*.',
+      '> — Orwell',
+      '',
+      'He calls it “the vile wind” and says "the clocks were striking thirteen" here.',
+      '',
+      '```',
+      '"this is code, not a quotation at all"',
+      '```',
+    ].join('\n');
+    expect(extractQuotes(section)).toEqual([
+      'It was a bright cold day in April.',
+      'the clocks were striking thirteen',
+    ]);
+  });
+});
+
+describe('verifyQuote', () => {
+  test('verifies quotes across line breaks, case and typography', () => {
+    const check = verifyQuote(
+      'the clocks were striking Thirteen… Winston Smith',
+      book,
+    );
+    expect(check.status).toBe('verified');
+    expect(book.slice(check.start, check.end)).toBe(
+      'the clocks were\nstriking thirteen. Winston Smith',
+    );
+  });
+
+  test('reports a near match with the real wording', () => {
+    const check = verifyQuote(
+      'The hallway smelled of boiled cabbage and old rag mats',
+      book,
+    );
+    expect(check).toMatchObject({
+      status: 'near',
+      source: 'The hallway smelt of boiled cabbage and old rag mats',
+    });
+  });
+
+  test('flags quotes the book does not contain', () => {
+    expect(
+      verifyQuote('Big Brother smiled warmly at the children', book).status,
+    ).toBe('missing');
+  });
+
+  test('counts the checks of a section', () => {
+    const checks = verifyQuotes(
+      '> slipped quickly through the glass doors\n\n> a poster far too large for any wall',
+      book,
+    );
+    expect(quoteCounts(checks)).toEqual({ verified: 1, near: 0, missing: 1 });
+  });
+});
@@ -0,0 +1,306 @@
+/** How a quoted passage compares with the book text. */
+export type QuoteStatus = 'verified' | 'near' | 'missing';
+
+export type QuoteCheck = {
+  quote: string;
+  status: QuoteStatus;
+  /** Span of the matching passage in the book text. */
+  start?: number;
+  end?: number;
+  /** The book's own wording, for near matches. */
+  source?: string;
+};
+
+/** Inline quotations shorter than this are titles or scare quotes. */
+const MIN_INLINE_WORDS = 4;
+/** Share of words that must line up for a near match. */
+const NEAR_SIMILARITY = 0.75;
+/** Anchor phrases looked up per quote, and hits followed per anchor. */
+const MAX_ANCHORS = 8;
+const MAX_HITS = 20;
+const ANCHOR_WORDS = 3;
+
+const FENCE = /^ {0,3}(```|~~~)/;
+const BLOCK_QUOTE = /^ {0,3}>\s?/;
+const ATTRIBUTION = /^\s*(?:—|–|--)\s*\S/;
+const INLINE_QUOTE = /“([^”\n]+)”|"([^"\n]+)"/g;
+const ELLIPSIS = /\s*(?:\[\s*(?:\.\s*){3}\]|\.{3}|…)\s*/g;
+const MARKUP = /[*_`]+|\[\^[^\]]*\]/g;
+const APOSTROPHE = /[‘’‚‛′]/;
+const WORD_CHAR = /[\p{L}\p{N}']/u;
+const WORD = /\S+/g;
+const SPACES = /\s+/;
+
+/** The text of a block quote line without its markers; null for others. */
+function quotedLine(line: string) {
+  if (!BLOCK_QUOTE.test(line)) {
+    return null;
+  }
+  let inner = line;
+  while (BLOCK_QUOTE.test(inner)) {
+    inner = inner.replace(BLOCK_QUOTE, '');
+  }
+  return inner.trim();
+}
+
+function inlineQuotes(line: string) {
+  return [...line.matchAll(INLINE_QUOTE)]
+    .map((m) => (m[1] ?? m[2]).replace(MARKUP, '').trim())
+    .filter((text) => text.split(SPACES).length >= MIN_INLINE_WORDS);
+}
+
+/** Block quotes and inline quotations in a section, outside code. */
+export function extractQuotes(markdown: string): Array<string> {
+  const quotes: Array<string> = [];
+  let block: Array<string> = [];
+  let inFence = false;
+  const flush = () => {
+    const text = block.join(' ').replace(MARKUP, '').trim();
+    if (text) {
+      quotes.push(text);
+    }
+    block = [];
+  };
+  for (const line of markdown.split('\n')) {
+    const quoted = quotedLine(line);
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      flush();
+    } else if (inFence) {
+      // Code is not quoted prose
+    } else if (quoted === null) {
+      flush();
+      quotes.push(...inlineQuotes(line));
+    } else if (!ATTRIBUTION.test(quoted)) {
+      block.push(quoted);
+    }
+  }
+  flush();
+  return quotes;
+}
+
+type Normalized = {
+  text: string;
+  /** Offset in the original text of each normalized character. */
+  map: Array<number>;
+};
+
+/**
+ * Lower-case words separated by single spaces, with punctuation dropped and
+ * curly quotes folded, so layout and typography do not block a match.
+ */
+function normalize(source: string): Normalized {
+  let text = '';
+  const map: Array<number> = [];
+  let gap = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = APOSTROPHE.test(source[i]) ? "'" : source[i];
+    if (WORD_CHAR.test(ch)) {
+      if (gap && text) {
+        text += ' ';
+        map.push(i);
+      }
+      gap = false;
+      // A few characters lower-case to two; both map back to this one
+      for (const lower of ch.toLowerCase()) {
+        text += lower;
+        map.push(i);
+      }
+    } else {
+      gap = true;
+    }
+  }
+  return { text, map };
+}
+
+// The book is normalized once and reused while it stays the same
+let cached: { source: string; normalized: Normalized } | null = null;
+
+function normalizedBook(source: string) {
+  if (cached?.source !== source) {
+    cached = { source, normalized: normalize(source) };
+  }
+  return cached.normalized;
+}
+
+/** Span in the original text of normalized characters [from, to). */
+function originalSpan(book: Normalized, from: number, to: number) {
+  return { start: book.map[from], end: book.map[to - 1] + 1 };
+}
+
+/** Finds every part between ellipses, in order. */
+function exactMatch(book: Normalized, quote: string) {
+  const parts = quote
+    .split(ELLIPSIS)
+    .map((p) => normalize(p).text)
+    .filter(Boolean);
+  if (!parts.length) {
+    return null;
+  }
+  let from = book.text.indexOf(parts[0]);
+  while (from !== -1) {
+    let at = from + parts[0].length;
+    const ok = parts.slice(1).every((part) => {
+      const next = book.text.indexOf(part, at);
+      at = next + part.length;
+      return next !== -1;
+    });
+    if (ok) {
+      return originalSpan(book, from, at);
+    }
+    from = book.text.indexOf(parts[0], from + 1);
+  }
+  return null;
+}
+
+type Token = { word: string; start: number; end: number };
+
+function tokens(text: string, offset: number): Array<Token> {
+  return [...text.matchAll(WORD)].map((m) => ({
+    word: m[0],
+    start: offset + m.index,
+    end: offset + m.index + m[0].length,
+  }));
+}
+
+/**
+ * Word edit distance between `quote` and its best-matching run of `window`,
+ * which may start and end anywhere.
+ */
+function align(quote: Array<string>, window: Array<Token>) {
+  let prev = Array.from({ length: window.length + 1 }, () => 0);
+  let prevStart = prev.map((_, j) => j);
+  for (let i = 1; i <= quote.length; i++) {
+    const row = [i];
+    const rowStart = [0];
+    for (let j = 1; j <= window.length; j++) {
+      let cost = prev[j - 1] + (quote[i - 1] === window[j - 1].word ? 0 : 1);
+      let start = prevStart[j - 1];
+      if (prev[j] + 1 < cost) {
+        cost = prev[j] + 1;
+        start = prevStart[j];
+      }
+      if (row[j - 1] + 1 < cost) {
+        cost = row[j - 1] + 1;
+        start = rowStart[j - 1];
+      }
+      row.push(cost);
+      rowStart.push(start);
+    }
+    prev = row;
+    prevStart = rowStart;
+  }
+  let best = 1;
+  for (let j = 2; j <= window.length; j++) {
+    if (prev[j] < prev[best]) {
+      best = j;
+    }
+  }
+  return { distance: prev[best], from: prevStart[best], to: best };
+}
+
+type Candidate = { similarity: number; from: number; to: number };
+
+/** Best alignment of `words` within normalized characters [from, to). */
+function alignWindow(
+  book: Normalized,
+  words: Array<string>,
+  from: number,
+  to: number,
+): Candidate | null {
+  const window = tokens(book.text.slice(from, to), from);
+  const found = align(words, window);
+  if (found.to <= found.from) {
+    return null;
+  }
+  return {
+    similarity: 1 - found.distance / words.length,
+    from: window[found.from].start,
+    to: window[found.to - 1].end,
+  };
+}
+
+/**
+ * Starts of the windows worth aligning: around exact hits of a few short
+ * phrases of the quote, each window once.
+ */
+function windowStarts(book: Normalized, words: Array<string>, slack: number) {
+  const anchors = words.length - ANCHOR_WORDS + 1;
+  const stride = Math.max(1, Math.floor(anchors / MAX_ANCHORS));
+  const starts = new Map<number, number>();
+  for (let a = 0; a < anchors; a += stride) {
+    const anchor = words.slice(a, a + ANCHOR_WORDS).join(' ');
+    const lead = words.slice(0, a).join(' ').length;
+    let hit = book.text.indexOf(anchor);
+    for (let n = 0; hit !== -1 && n < MAX_HITS; n++) {
+      const from = Math.max(0, hit - lead - slack);
+      // Anchors of one passage land on about the same window
+      starts.set(Math.round(from / slack), from);
+      hit = book.text.indexOf(anchor, hit + 1);
+    }
+  }
+  return [...starts.values()];
+}
+
+/** The closest passage to a quote that is not in the book word for word. */
+function nearMatch(book: Normalized, quote: string) {
+  const text = normalize(quote.replace(ELLIPSIS, ' ')).text;
+  const words = text.split(' ');
+  if (words.length < ANCHOR_WORDS) {
+    return null;
+  }
+  const slack = Math.ceil(text.length * 0.25);
+  let best: Candidate | null = null;
+  for (const from of windowStarts(book, words, slack)) {
+    const found = alignWindow(
+      book,
+      words,
+      from,
+      from + text.length + 2 * slack,
+    );
+    if (found && found.similarity > (best?.similarity ?? 0)) {
+      best = found;
+    }
+  }
+  return best && best.similarity >= NEAR_SIMILARITY ? best : null;
+}
+
+/** Checks one quotation against the book text. */
+export function verifyQuote(quote: string, bookText: string): QuoteCheck {
+  const book = normalizedBook(bookText);
+  const exact = exactMatch(book, quote);
+  if (exact) {
+    return { quote, status: 'verified', ...exact };
+  }
+  const near = nearMatch(book, quote);
+  if (!near) {
+    return { quote, status: 'missing' };
+  }
+  const span = originalSpan(book, near.from, near.to);
+  return {
+    quote,
+    status: 'near',
+    ...span,
+    source: bookText.slice(span.start, span.end),
+  };
+}
+
+/** Each distinct quotation in a section, checked against the book text. */
+export function verifyQuotes(markdown: string, bookText: string) {
+  return [...new Set(extractQuotes(markdown))].map((q) =>
+    verifyQuote(q, bookText),
+  );
+}
+
+/** How many quotes have each status. */
+export function quoteCounts(checks: Array<QuoteCheck>) {
+  const counts: Record<QuoteStatus, number> = {
+    verified: 0,
+    near: 0,
+    missing: 0,
+  };
+  for (const check of checks) {
+    counts[check.status]++;
+  }
+  return counts;
+}
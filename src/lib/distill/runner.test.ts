@@ -0,0 +1,253 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import type { RunnerRecord, SectionRecord } from '@/lib/db';
+import { ProviderError } from '@/lib/llm/errors';
+import type { GenerateRequest, LLMProvider } from '@/lib/llm/types';
+
+import {
+  createRunner,
+  type RunnerConfig,
+  type RunnerHooks,
+  type RunnerStore,
+} from './runner';
+
+const ids = { bookId: 'book', runId: 'run' };
+
+/** In-memory store standing in for Dexie. */
+function memoryStore(saved?: RunnerRecord) {
+  const sections = new Map<string, SectionRecord>();
+  let state = saved;
+  const store: RunnerStore = {
+    sections: () =>
+      Promise.resolve([...sections.values()].sort((a, b) => a.order - b.order)),
+    commit: (_run, _label, changes) => {
+      for (const { id, after } of changes) {
+        if (after) {
+          sections.set(id, after);
+        } else {
+          sections.delete(id);
+        }
+      }
+      return Promise.resolve();
+    },
+    loadState: () => Promise.resolve(state),
+    saveState: (record) => {
+      state = record;
+      return Promise.resolve();
+    },
+  };
+  return { store, sections, saved: () => state };
+}
+
+/** Streams each reply in turn, token by token. */
+function fakeProvider(
+  replies: Array<string | Error | ((req: GenerateRequest) => Promise<string>)>,
+): LLMProvider {
+  let call = 0;
+  return {
+    id: 'fake',
+    label: 'Fake',
+    defaultModel: 'm',
+    fields: [],
+    generate: (req) => {
+      const reply = replies[Math.min(call++, replies.length - 1)];
+      if (reply instanceof Error) {
+        return Promise.reject(reply);
+      }
+      if (typeof reply === 'function') {
+        return reply(req);
+      }
+      for (const word of reply.split(' ')) {
+        req.onToken?.(`${word} `);
+      }
+      return Promise.resolve(reply);
+    },
+  };
+}
+
+function setup(
+  replies: Parameters<typeof fakeProvider>[0],
+  config: Partial<RunnerConfig> = {},
+  extra: Partial<RunnerHooks> = {},
+) {
+  const memory = memoryStore();
+  const states: Array<string> = [];
+  const hooks: RunnerHooks = {
+    config: {
+      auto: false,
+      stopToken: '<END>',
+      maxSections: 10,
+      chunkRefs: false,
+      ...config,
+    },
+    provider: fakeProvider(replies),
+    prepare: async (accepted) => ({
+      model: 'm',
+      system: 'system',
+      user: `section ${accepted.length + 1}`,
+      settings: {},
+    }),
+    onState: (s) => states.push(s.status),
+    ...extra,
+  };
+  const runner = createRunner(ids, memory.store, () => hooks);
+  const list = () => memory.store.sections(ids.runId);
+  return { runner, states, list, memory };
+}
+
+describe('createRunner', () => {
+  test('holds each section for review without auto-advance', async () => {
+    const { runner, states, list } = setup(['# One\n\nText']);
+    await runner.next();
+    expect(states).toEqual(['generating', 'awaiting-review']);
+    const [section] = await list();
+    expect(section).toMatchObject({
+      heading: 'One',
+      status: 'draft',
+      order: 1,
+    });
+    expect(runner.getState().sectionId).toBe(section.id);
+    await runner.reviewed();
+    expect(runner.getState().status).toBe('idle');
+  });
+
+  test('auto-advances after the first review up to the section limit', async () => {
+    const { runner, memory, list } = setup(['# Part'], {
+      auto: true,
+      maxSections: 3,
+    });
+    await runner.next();
+    expect(runner.getState().status).toBe('awaiting-review');
+    const [first] = await list();
+    memory.sections.set(first.id, { ...first, status: 'accepted' });
+    await runner.reviewed();
+    const sections = await list();
+    expect(sections.map((s) => [s.order, s.status])).toEqual([
+      [1, 'accepted'],
+      [2, 'accepted'],
+      [3, 'accepted'],
+    ]);
+    expect(runner.getState()).toMatchObject({
+      status: 'completed',
+      reason: 'max-sections',
+    });
+    expect(memory.saved()?.status).toBe('completed');
+  });
+
+  test('completes when a section contains the stop token', async () => {
+    const { runner, memory, list } = setup(['# A', '# B', '# C <END>', '# D'], {
+      auto: true,
+    });
+    await runner.next();
+    const [first] = await list();
+    memory.sections.set(first.id, { ...first, status: 'accepted' });
+    await runner.reviewed();
+    expect((await list()).map((s) => s.heading)).toEqual(['A', 'B', 'C <END>']);
+    expect(runner.getState().reason).toBe('stop-token');
+  });
+
+  test('pauses before going over the budget', async () => {
+    const withinBudget = vi
+      .fn<NonNullable<RunnerHooks['withinBudget']>>()
+      .mockResolvedValueOnce(true)
+      .mockResolvedValue(false);
+    const { runner, memory, list } = setup(
+      ['# Part'],
+      { auto: true },
+      { withinBudget },
+    );
+    await runner.next();
+    const [first] = await list();
+    memory.sections.set(first.id, { ...first, status: 'accepted' });
+    await runner.reviewed();
+    expect(await list()).toHaveLength(2);
+    expect(runner.getState()).toMatchObject({
+      status: 'paused',
+      reason: 'budget',
+    });
+  });
+
+  test('stop keeps the streamed text as a draft and ends the loop', async () => {
+    let streaming: () => void = () => undefined;
+    const started = new Promise<void>((resolve) => {
+      streaming = resolve;
+    });
+    const { runner, list } = setup([
+      (req) =>
+        new Promise((_, reject) => {
+          req.onToken?.('# Partial');
+          streaming();
+          req.signal?.addEventListener('abort', () =>
+            reject(new DOMException('Aborted', 'AbortError')),
+          );
+        }),
+    ]);
+    const done = runner.next();
+    await started;
+    runner.stop();
+    await done;
+    expect(await list()).toMatchObject([
+      { heading: 'Partial', content: '# Partial', status: 'draft' },
+    ]);
+    expect(runner.getState()).toMatchObject({
+      status: 'paused',
+      reason: 'stopped',
+    });
+  });
+
+  test('fails with the error, drops the empty section and can retry', async () => {
+    const onDropped = vi.fn();
+    const onError = vi.fn();
+    const { runner, list } = setup(
+      [
+        new ProviderError({
+          kind: 'auth',
+          provider: 'Fake',
+          message: 'bad key',
+        }),
+        '# Again',
+      ],
+      {},
+      { onDropped, onError },
+    );
+    await runner.next();
+    expect(runner.getState()).toMatchObject({
+      status: 'failed',
+      error: 'bad key',
+    });
+    expect(onDropped).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0]).toMatchObject({ kind: 'auth' });
+    expect(await list()).toEqual([]);
+    await runner.next();
+    expect((await list()).map((s) => s.heading)).toEqual(['Again']);
+  });
+
+  test('reports state that could not be saved and carries on', async () => {
+    const onError = vi.fn();
+    const { runner, memory } = setup(['# One'], {}, { onError });
+    const full = new Error('QuotaExceededError');
+    memory.store.saveState = () => Promise.reject(full);
+    await runner.next();
+    expect(runner.getState().status).toBe('awaiting-review');
+    expect(onError).toHaveBeenCalledWith(full);
+  });
+
+  test('restores an interrupted generation as paused', async () => {
+    const memory = memoryStore({
+      ...ids,
+      status: 'generating',
+      sectionId: 'gone',
+      updatedAt: 1,
+    });
+    const runner = createRunner(ids, memory.store, () => ({
+      config: { auto: true, stopToken: '', maxSections: 5, chunkRefs: false },
+      provider: fakeProvider(['# X']),
+      prepare: async () => ({ model: 'm', system: '', user: '', settings: {} }),
+    }));
+    expect(await runner.restore()).toMatchObject({
+      status: 'paused',
+      reason: 'interrupted',
+    });
+    expect(memory.saved()?.status).toBe('paused');
+  });
+});
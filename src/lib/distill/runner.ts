@@ -0,0 +1,303 @@
+import {
+  db,
+  type RunnerRecord,
+  type SectionChange,
+  type SectionRecord,
+} from '@/lib/db';
+import { commitSections } from '@/lib/history';
+import { generateWithRetry, type RetryStatus } from '@/lib/llm/retry';
+import type { GenerateRequest, LLMProvider } from '@/lib/llm/types';
+
+import { extractChunkRefs } from './long-book';
+import { nextOrder, parseHeading } from './outline';
+
+/** A run's generation state, as the runner keeps it. */
+export type RunnerState = Omit<RunnerRecord, 'bookId' | 'runId'>;
+
+/** Settings read each time the runner decides what to do next. */
+export type RunnerConfig = {
+  /** Auto-advance: accept sections after the first and keep going. */
+  auto: boolean;
+  stopToken: string;
+  maxSections: number;
+  /** Long-book mode: sections end with a line citing the chunks they used. */
+  chunkRefs: boolean;
+};
+
+export type RunnerHooks = {
+  config: RunnerConfig;
+  provider: LLMProvider;
+  /** Model, prompts and settings for the section after `accepted`. */
+  prepare: (
+    accepted: Array<SectionRecord>,
+    signal: AbortSignal,
+  ) => Promise<Omit<GenerateRequest, 'signal' | 'onToken'>>;
+  /** False when the next section would go over the run's budget. */
+  withinBudget?: (accepted: Array<SectionRecord>) => Promise<boolean>;
+  onRetry?: (status: RetryStatus) => void;
+  onState?: (state: RunnerState) => void;
+  /** A section was started, streamed more text, or was saved. */
+  onSection?: (section: SectionRecord) => void;
+  /** A section that failed before any text arrived was dropped. */
+  onDropped?: (id: string) => void;
+  /** A generated section was saved. */
+  onSaved?: (section: SectionRecord) => void;
+  /** A generation failed, or the runner's state could not be saved. */
+  onError?: (error: unknown) => void;
+};
+
+type RunRef = { bookId: string; runId: string };
+
+/** Persistence the runner needs; `dexieRunnerStore` in the app. */
+export type RunnerStore = {
+  sections: (runId: string) => Promise<Array<SectionRecord>>;
+  /** Saves section changes as one undoable step. */
+  commit: (
+    run: RunRef,
+    label: string,
+    changes: Array<SectionChange>,
+  ) => Promise<void>;
+  loadState: (runId: string) => Promise<RunnerState | undefined>;
+  saveState: (record: RunnerRecord) => Promise<void>;
+};
+
+export const dexieRunnerStore: RunnerStore = {
+  sections: (runId) => db.sections.where({ runId }).sortBy('order'),
+  commit: commitSections,
+  loadState: (runId) => db.runners.get(runId),
+  saveState: async (record) => {
+    await db.runners.put(record);
+  },
+};
+
+const accepted = (sections: Array<SectionRecord>) =>
+  sections.filter((s) => s.status === 'accepted');
+
+/** A generated section with its first candidate; accepted when auto-advancing. */
+function finished(
+  draft: SectionRecord,
+  text: string,
+  chunkRefs: boolean,
+  accept: boolean,
+): SectionRecord {
+  const refs = extractChunkRefs(text);
+  const chunks = chunkRefs ? refs.chunks : undefined;
+  return {
+    ...draft,
+    content: refs.content,
+    heading: parseHeading(refs.content),
+    status: accept ? 'accepted' : 'draft',
+    ...(chunks && { chunks }),
+    candidates: [
+      {
+        content: refs.content,
+        ...(chunks && { chunks }),
+        createdAt: Date.now(),
+      },
+    ],
+    activeCandidate: 0,
+  };
+}
+
+/**
+ * Generation loop of one run as a state machine. Every decision reads the
+ * sections from the store and calls `getHooks` for the current settings, so
+ * nothing depends on when a UI last rendered. Each state change is persisted;
+ * after a reload, `restore` turns an unfinished generation into `paused`.
+ */
+export function createRunner(
+  { bookId, runId }: RunRef,
+  store: RunnerStore,
+  getHooks: () => RunnerHooks,
+) {
+  let state: RunnerState = { status: 'idle', updatedAt: Date.now() };
+  let controller: AbortController | null = null;
+  let stopRequested = false;
+  let saving = Promise.resolve();
+
+  function set(next: Omit<RunnerState, 'updatedAt'>) {
+    state = { ...next, updatedAt: Date.now() };
+    const record = { bookId, runId, ...state };
+    saving = saving
+      .then(() => store.saveState(record))
+      .catch((error: unknown) => getHooks().onError?.(error));
+    getHooks().onState?.(state);
+  }
+
+  /** Why auto-advance should not continue, or null to go on. */
+  async function holdReason(
+    sections: Array<SectionRecord>,
+  ): Promise<Omit<RunnerState, 'updatedAt'> | null> {
+    const { config, withinBudget } = getHooks();
+    const { stopToken, maxSections } = config;
+    const last = sections.at(-1);
+    if (stopToken && last?.content.includes(stopToken)) {
+      return { status: 'completed', reason: 'stop-token' };
+    }
+    const done = accepted(sections);
+    if (done.length >= maxSections) {
+      return { status: 'completed', reason: 'max-sections' };
+    }
+    if (withinBudget && !(await withinBudget(done))) {
+      return { status: 'paused', reason: 'budget' };
+    }
+    return null;
+  }
+
+  /** Keeps what a stopped section streamed, or reports why it failed. */
+  async function interrupted(
+    partial: SectionRecord,
+    error: unknown,
+    signal: AbortSignal,
+  ) {
+    const hooks = getHooks();
+    if (signal.aborted && partial.content) {
+      // Stopped mid-stream: keep what arrived as a draft for review
+      await store.commit({ bookId, runId }, 'Generate', [
+        { id: partial.id, before: null, after: partial },
+      ]);
+      hooks.onSection?.(partial);
+    } else {
+      hooks.onDropped?.(partial.id);
+    }
+    if (signal.aborted) {
+      set({ status: 'paused', reason: 'stopped' });
+    } else {
+      set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      hooks.onError?.(error);
+    }
+  }
+
+  /** Generates one section; true when it was auto-accepted. */
+  async function step(signal: AbortSignal) {
+    const sections = await store.sections(runId);
+    const id = crypto.randomUUID();
+    const order = nextOrder(sections);
+    const autoAccept = getHooks().config.auto && sections.length > 0;
+    const draft = (content: string): SectionRecord => ({
+      id,
+      bookId,
+      runId,
+      content,
+      heading: parseHeading(content),
+      status: 'draft',
+      order,
+    });
+    let streamed = '';
+    set({ status: 'generating', sectionId: id });
+    getHooks().onSection?.({ ...draft(''), heading: 'Generating…' });
+    try {
+      const request = await getHooks().prepare(accepted(sections), signal);
+      const text = await generateWithRetry(
+        getHooks().provider,
+        {
+          ...request,
+          signal,
+          onToken: (delta) => {
+            streamed += delta;
+            getHooks().onSection?.(draft(streamed));
+          },
+        },
+        { onRetry: getHooks().onRetry },
+      );
+      const { config, onSection, onSaved } = getHooks();
+      const section = finished(draft(''), text, config.chunkRefs, autoAccept);
+      await store.commit(
+        { bookId, runId },
+        autoAccept ? 'Generate and accept' : 'Generate',
+        [{ id, before: null, after: section }],
+      );
+      onSection?.(section);
+      onSaved?.(section);
+      if (!autoAccept) {
+        set({ status: 'awaiting-review', sectionId: id });
+      }
+      return autoAccept;
+    } catch (e) {
+      await interrupted(draft(streamed.trim()), e, signal);
+      return false;
+    }
+  }
+
+  /** Generates sections until one needs review, a limit holds, or Stop. */
+  async function loop(checkFirst: boolean) {
+    if (controller) {
+      return;
+    }
+    stopRequested = false;
+    controller = new AbortController();
+    const { signal } = controller;
+    try {
+      let check = checkFirst;
+      while (!stopRequested) {
+        if (check) {
+          const hold = await holdReason(await store.sections(runId));
+          if (hold) {
+            set(hold);
+            return;
+          }
+        }
+        if (!(await step(signal))) {
+          return;
+        }
+        check = true;
+      }
+      set({ status: 'paused', reason: 'stopped' });
+    } finally {
+      controller = null;
+      await saving;
+    }
+  }
+
+  return {
+    getState: () => state,
+
+    /** Loads the persisted state; an unfinished generation becomes `paused`. */
+    async restore() {
+      const saved = await store.loadState(runId);
+      if (saved?.status === 'generating') {
+        set({ status: 'paused', reason: 'interrupted' });
+      } else if (saved) {
+        state = saved;
+        getHooks().onState?.(state);
+      }
+      await saving;
+      return state;
+    },
+
+    /**
+     * Generates the next section now (Start, Next, Resume or Retry); with
+     * auto-advance on, keeps going after it.
+     */
+    next() {
+      return loop(false);
+    },
+
+    /** After the user accepts a draft: continue when auto-advancing. */
+    async reviewed() {
+      if (getHooks().config.auto) {
+        await loop(true);
+      } else if (!controller) {
+        set({ status: 'idle' });
+      }
+    },
+
+    /** Aborts the current generation and holds the loop. */
+    stop() {
+      stopRequested = true;
+      controller?.abort();
+    },
+
+    /** Back to idle, e.g. after the run's sections were cleared. */
+    reset() {
+      if (!controller) {
+        set({ status: 'idle' });
+      }
+    },
+  };
+}
+
+export type Runner = ReturnType<typeof createRunner>;
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'vitest';
+
+import { DEFAULT_USER_TEMPLATE } from './defaults';
+import { buildFullTextSectionUser, renderSystemPrompt } from './prompts';
+import { elide, renderTemplate, unknownVariables } from './templates';
+
+const context = { history: '# One', stopToken: '<END>', sectionNumber: 2 };
+
+describe('renderTemplate', () => {
+  test('fills known variables and leaves the rest as written', () => {
+    expect(
+      renderTemplate('{{ title }} by {{author}}: {{nope}}', {
+        title: 'Walden',
+        author: 'Thoreau',
+      }),
+    ).toBe('Walden by Thoreau: {{nope}}');
+  });
+});
+
+describe('unknownVariables', () => {
+  test('lists each unrecognised placeholder once', () => {
+    expect(unknownVariables('{{title}} {{tittle}} {{tittle}} {{x}}')).toEqual([
+      'tittle',
+      'x',
+    ]);
+  });
+});
+
+describe('elide', () => {
+  test('keeps short text and marks how much was cut', () => {
+    expect(elide('short', 10)).toBe('short');
+    expect(elide('abcdefghij', 4)).toBe('abcd\n… [6 more characters]');
+  });
+});
+
+describe('default user template', () => {
+  test('renders the section message with and without chapters', () => {
+    const info = { title: 'Walden', author: '' };
+    expect(
+      buildFullTextSectionUser(DEFAULT_USER_TEMPLATE, info, 'Text', context),
+    ).toBe(
+      'Book Title: Walden\nAuthor: (unknown)\n\nFull book text (or extract):\nText\n\nPreviously accepted sections (for continuity):\n# One\n\nGenerate the next section according to the protocol above. Then end if appropriate with the stop token: <END>',
+    );
+    const withToc = buildFullTextSectionUser(
+      DEFAULT_USER_TEMPLATE,
+      {
+        ...info,
+        chapters: [{ title: 'Economy', level: 0, start: 0, end: 4 }],
+      },
+      'Text',
+      context,
+    );
+    expect(withToc).toContain(
+      'Author: (unknown)\n\nTable of contents:\n- Economy\n\nFull book text',
+    );
+  });
+});
+
+describe('renderSystemPrompt', () => {
+  test('fills book details but not the text or history', () => {
+    expect(
+      renderSystemPrompt(
+        'Distill {{title}}, section {{section_number}}. {{book_text}} {{history}}',
+        { title: 'Walden', author: 'Thoreau' },
+        context,
+      ),
+    ).toBe('Distill Walden, section 2. {{book_text}} {{history}}');
+  });
+});
@@ -0,0 +1,58 @@
+const VARIABLE = /\{\{\s*([\w]+)\s*\}\}/g;
+
+/** Values available to `{{name}}` placeholders in prompt templates. */
+export type TemplateVariables = {
+  title: string;
+  author: string;
+  /** "Table of contents:" block, or empty when the book has no chapters. */
+  table_of_contents: string;
+  /** The book text, or the chunk notes digest in long-book mode. */
+  book_text: string;
+  history: string;
+  stop_token: string;
+  section_number: string;
+};
+
+export type TemplateVariable = keyof TemplateVariables;
+
+/** Variable names with the help text shown next to the template editor. */
+export const TEMPLATE_VARIABLES: Array<[TemplateVariable, string]> = [
+  ['title', 'Book title'],
+  ['author', 'Author'],
+  ['table_of_contents', 'Chapter list, when the book has one'],
+  ['book_text', 'Book text (reading notes in long-book mode)'],
+  ['history', 'Sections accepted so far'],
+  ['stop_token', 'Stop token'],
+  ['section_number', 'Number of the section being written'],
+];
+
+const KNOWN = new Set<string>(TEMPLATE_VARIABLES.map(([name]) => name));
+
+/** Replaces `{{name}}` placeholders; unknown names are left as written. */
+export function renderTemplate(
+  template: string,
+  variables: Partial<TemplateVariables>,
+) {
+  return template.replace(VARIABLE, (match, name: string) =>
+    KNOWN.has(name) ? (variables[name as TemplateVariable] ?? match) : match,
+  );
+}
+
+/** Placeholders in a template that no variable fills, e.g. typos. */
+export function unknownVariables(template: string) {
+  const names = new Set<string>();
+  for (const [, name] of template.matchAll(VARIABLE)) {
+    if (!KNOWN.has(name)) {
+      names.add(name);
+    }
+  }
+  return [...names];
+}
+
+/** Shortens long text for the preview, saying how much was left out. */
+export function elide(text: string, max: number) {
+  if (text.length <= max) {
+    return text;
+  }
+  return `${text.slice(0, max)}\n… [${(text.length - max).toLocaleString()} more characters]`;
+}
@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, test } from 'vitest';
+
+import { buildDocx } from './docx';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const book = {
+  title: 'Walden',
+  author: 'Henry David Thoreau',
+  sections: [
+    {
+      heading: 'Economy',
+      content:
+        '# Economy\n\n> "I went to the woods."\n\n1. Simplify\n2. See [more](https://example.com)',
+    },
+    {
+      heading: 'Solitude',
+      content:
+        '## Solitude\n\n- alone\n  - together\n\n| Visitor | Chairs |\n| --- | :-: |\n| Friend[^1] | 2 |\n\n[^1]: For society.',
+    },
+  ],
+};
+
+async function open() {
+  const data = await buildDocx(book).generateAsync({ type: 'uint8array' });
+  const zip = await JSZip.loadAsync(data);
+  const xml = async (path: string) => {
+    const text = await zip.file(path)?.async('string');
+    expect(text, path).toBeDefined();
+    const doc = new DOMParser().parseFromString(text ?? '', 'application/xml');
+    expect(doc.getElementsByTagName('parsererror'), path).toHaveLength(0);
+    return doc;
+  };
+  return { zip, xml };
+}
+
+const attrs = (doc: Document, tag: string, attr: string) =>
+  [...doc.getElementsByTagNameNS(W_NS, tag)].map((e) =>
+    e.getAttributeNS(W_NS, attr),
+  );
+
+describe('buildDocx', () => {
+  test('writes well-formed parts that the package declares', async () => {
+    const { zip, xml } = await open();
+    const types = await xml('[Content_Types].xml');
+    for (const o of types.getElementsByTagName('Override')) {
+      expect(
+        zip.file(o.getAttribute('PartName')?.slice(1) ?? ''),
+      ).not.toBeNull();
+    }
+    const rels = await xml('word/_rels/document.xml.rels');
+    const external = [...rels.getElementsByTagName('Relationship')].filter(
+      (r) => r.getAttribute('TargetMode') === 'External',
+    );
+    expect(external.map((r) => r.getAttribute('Target'))).toEqual([
+      'https://example.com',
+    ]);
+    await xml('docProps/core.xml');
+  });
+
+  test('uses defined styles, numbering and bookmarks', async () => {
+    const { xml } = await open();
+    const doc = await xml('word/document.xml');
+    const styles = new Set(
+      attrs(await xml('word/styles.xml'), 'style', 'styleId'),
+    );
+    const used = attrs(doc, 'pStyle', 'val');
+    expect(used.filter((s) => !styles.has(s ?? ''))).toEqual([]);
+    expect(used).toEqual(
+      expect.arrayContaining([
+        'Title',
+        'TOC1',
+        'Heading1',
+        'Heading2',
+        'Quote',
+      ]),
+    );
+
+    const numbering = await xml('word/numbering.xml');
+    const numIds = new Set(attrs(numbering, 'num', 'numId'));
+    expect(attrs(doc, 'numId', 'val').every((id) => numIds.has(id))).toBe(true);
+    expect(attrs(doc, 'ilvl', 'val')).toContain('1');
+
+    // Every table of contents entry points at a section heading's bookmark
+    const bookmarks = attrs(doc, 'bookmarkStart', 'name');
+    expect(bookmarks).toEqual(['section_1', 'section_2']);
+    expect(attrs(doc, 'hyperlink', 'anchor').filter(Boolean)).toEqual(
+      bookmarks,
+    );
+    expect(doc.documentElement.textContent).toContain('TOC \\o');
+  });
+
+  test('writes tables and footnotes', async () => {
+    const { xml } = await open();
+    const doc = await xml('word/document.xml');
+    const rows = [...doc.getElementsByTagNameNS(W_NS, 'tr')];
+    expect(rows.map((r) => r.textContent)).toEqual([
+      'VisitorChairs',
+      'Friend12',
+    ]);
+    expect(attrs(doc, 'tblHeader', 'val')).toHaveLength(1);
+    expect(attrs(doc, 'jc', 'val')).toEqual(['center', 'center']);
+    expect(attrs(doc, 'vertAlign', 'val')).toEqual(['superscript']);
+    expect(doc.documentElement.textContent).toContain('1. For society.');
+  });
+});
@@ -0,0 +1,389 @@
+import JSZip from 'jszip';
+
+import { escapeXml } from './html';
+import {
+  type Block,
+  type Inline,
+  sectionBlocks,
+  type TableAlign,
+} from './markdown';
+import { distilledFrom, type ExportBook, type ExportSection } from './types';
+
+const NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SAFE_HREF = /^(https?:|mailto:)/i;
+const BULLET_LIST = 1;
+// Word only defines three list levels here; deeper items share the last one
+const MAX_LIST_LEVEL = 2;
+
+const CONTENT_TYPES = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const paragraphStyle = (
+  id: string,
+  name: string,
+  pPr: string,
+  rPr: string,
+  extra = '',
+) =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>${extra}<w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+
+const headingStyle = (level: number, size: number) =>
+  paragraphStyle(
+    `Heading${level}`,
+    `heading ${level}`,
+    `<w:keepNext/><w:spacing w:before="${480 - level * 60}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/>`,
+    `<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:b/><w:sz w:val="${size}"/>`,
+    '<w:next w:val="Normal"/>',
+  );
+
+const STYLES = `${XML_DECLARATION}<w:styles ${NAMESPACES}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Cambria" w:hAnsi="Cambria" w:eastAsia="Cambria" w:cs="Cambria"/><w:sz w:val="23"/><w:szCs w:val="23"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>
+${paragraphStyle('Title', 'Title', '<w:spacing w:after="120"/>', '<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:b/><w:sz w:val="56"/>')}
+${paragraphStyle('Subtitle', 'Subtitle', '<w:spacing w:after="480"/>', '<w:i/><w:color w:val="595959"/><w:sz w:val="28"/>')}
+${headingStyle(1, 36)}
+${headingStyle(2, 30)}
+${headingStyle(3, 26)}
+${headingStyle(4, 24)}
+${paragraphStyle('Quote', 'Quote', '<w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="BFBFBF"/></w:pBdr><w:ind w:left="567" w:right="567"/>', '<w:i/><w:color w:val="404040"/>')}
+${paragraphStyle('ListParagraph', 'List Paragraph', '<w:spacing w:after="80"/><w:ind w:left="720"/>', '')}
+${paragraphStyle('Code', 'Code', '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/>', '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="19"/>')}
+${paragraphStyle('TOCHeading', 'TOC Heading', '<w:spacing w:before="240" w:after="240"/>', '<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:b/><w:sz w:val="32"/>')}
+${paragraphStyle('TOC1', 'toc 1', '<w:tabs><w:tab w:val="right" w:leader="dot" w:pos="9350"/></w:tabs><w:spacing w:after="100"/>', '')}
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`;
+
+const listLevel = (level: number, format: string, text: string) =>
+  `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+
+const BULLET_LEVELS = ['•', '◦', '▪']
+  .map((bullet, i) => listLevel(i, 'bullet', bullet))
+  .join('');
+const DECIMAL_LEVELS = [0, 1, 2]
+  .map((i) => listLevel(i, 'decimal', `%${i + 1}.`))
+  .join('');
+
+type RunStyle = {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  superscript?: boolean;
+};
+
+/** Hyperlink targets and numbered lists collected while writing the body. */
+type DocxState = {
+  links: Array<string>;
+  /** Start number of each ordered list; each gets its own numbering. */
+  orderedLists: Array<number>;
+};
+
+type BlockContext = { quote: boolean; depth: number };
+
+function run(text: string, style: RunStyle = {}, linked = false) {
+  const props = [
+    linked && '<w:rStyle w:val="Hyperlink"/>',
+    !linked && style.code && '<w:rStyle w:val="CodeChar"/>',
+    style.bold && '<w:b/>',
+    style.italic && '<w:i/>',
+    style.superscript && '<w:vertAlign w:val="superscript"/>',
+  ]
+    .filter(Boolean)
+    .join('');
+  return `<w:r>${props && `<w:rPr>${props}</w:rPr>`}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function runs(
+  nodes: Array<Inline>,
+  state: DocxState,
+  style: RunStyle = {},
+  linked = false,
+): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case 'text':
+          return run(n.text, style, linked);
+        case 'code':
+          return run(n.text, { ...style, code: true }, linked);
+        case 'break':
+          return '<w:r><w:br/></w:r>';
+        case 'strong':
+          return runs(n.children, state, { ...style, bold: true }, linked);
+        case 'em':
+          return runs(n.children, state, { ...style, italic: true }, linked);
+        case 'footnote':
+          return run(String(n.number), { ...style, superscript: true }, linked);
+        default: {
+          if (!SAFE_HREF.test(n.href)) {
+            return runs(n.children, state, style, linked);
+          }
+          state.links.push(n.href);
+          return `<w:hyperlink r:id="rIdLink${state.links.length}">${runs(n.children, state, style, true)}</w:hyperlink>`;
+        }
+      }
+    })
+    .join('');
+}
+
+function paragraph(
+  content: string,
+  {
+    style,
+    list,
+    align,
+  }: {
+    style?: string;
+    list?: { id: number; level: number };
+    align?: TableAlign;
+  },
+) {
+  const props = [
+    style && `<w:pStyle w:val="${style}"/>`,
+    align && `<w:jc w:val="${align}"/>`,
+    list &&
+      `<w:numPr><w:ilvl w:val="${list.level}"/><w:numId w:val="${list.id}"/></w:numPr>`,
+  ]
+    .filter(Boolean)
+    .join('');
+  return `<w:p>${props && `<w:pPr>${props}</w:pPr>`}${content}</w:p>`;
+}
+
+const headingStyleId = (level: number) => `Heading${Math.min(level, 4)}`;
+
+function renderList(
+  list: Extract<Block, { type: 'list' }>,
+  state: DocxState,
+  context: BlockContext,
+) {
+  let id = BULLET_LIST;
+  if (list.ordered) {
+    state.orderedLists.push(list.start);
+    // Bullets are numbering 1, ordered lists 2 onwards
+    id = state.orderedLists.length + 1;
+  }
+  const level = Math.min(context.depth, MAX_LIST_LEVEL);
+  const inner = { ...context, depth: context.depth + 1 };
+  return list.items
+    .map((item) =>
+      item
+        .map((block, i) =>
+          i === 0 && block.type === 'paragraph'
+            ? paragraph(runs(block.children, state), {
+                style: context.quote ? 'Quote' : 'ListParagraph',
+                list: { id, level },
+              })
+            : renderBlock(block, state, inner),
+        )
+        .join(''),
+    )
+    .join('');
+}
+
+const TABLE_BORDERS = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+  .map(
+    (side) =>
+      `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`,
+  )
+  .join('');
+
+function renderTable(
+  { align, header, rows }: Extract<Block, { type: 'table' }>,
+  state: DocxState,
+) {
+  const row = (cells: Array<Array<Inline>>, bold: boolean) => {
+    const content = cells.map(
+      (cell, i) =>
+        `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(runs(cell, state, { bold }), { align: align[i] })}</w:tc>`,
+    );
+    // The header row repeats when a table runs onto another page
+    const props = bold ? '<w:trPr><w:tblHeader/></w:trPr>' : '';
+    return `<w:tr>${props}${content.join('')}</w:tr>`;
+  };
+  const grid = header.map(() => '<w:gridCol/>').join('');
+  return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${TABLE_BORDERS}</w:tblBorders></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${row(header, true)}${rows.map((r) => row(r, false)).join('')}</w:tbl>`;
+}
+
+/** Footnotes close their section as numbered notes under a rule. */
+function renderFootnotes(
+  { items }: Extract<Block, { type: 'footnotes' }>,
+  state: DocxState,
+  context: BlockContext,
+) {
+  const notes = items.map(({ number, children }) => {
+    const [first, ...rest] = children;
+    const marker = run(`${number}. `, { bold: true });
+    const lead =
+      first?.type === 'paragraph'
+        ? paragraph(marker + runs(first.children, state), {})
+        : paragraph(marker, {}) +
+          (first ? renderBlock(first, state, context) : '');
+    return lead + rest.map((b) => renderBlock(b, state, context)).join('');
+  });
+  return renderBlock({ type: 'rule' }, state, context) + notes.join('');
+}
+
+function renderBlock(
+  block: Block,
+  state: DocxState,
+  context: BlockContext,
+): string {
+  switch (block.type) {
+    case 'heading':
+      return paragraph(runs(block.children, state), {
+        style: headingStyleId(block.level),
+      });
+    case 'paragraph':
+      return paragraph(runs(block.children, state), {
+        style: context.quote ? 'Quote' : undefined,
+      });
+    case 'blockquote':
+      return block.children
+        .map((b) => renderBlock(b, state, { ...context, quote: true }))
+        .join('');
+    case 'code':
+      return paragraph(
+        block.text
+          .split('\n')
+          .map((line) => run(line))
+          .join('<w:r><w:br/></w:r>'),
+        { style: 'Code' },
+      );
+    case 'rule':
+      return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+    case 'table':
+      return renderTable(block, state);
+    case 'footnotes':
+      return renderFootnotes(block, state, context);
+    default:
+      return renderList(block, state, context);
+  }
+}
+
+const bookmarkName = (index: number) => `section_${index + 1}`;
+
+/** A section, its leading heading bookmarked for the table of contents. */
+function renderSection(
+  section: ExportSection,
+  index: number,
+  state: DocxState,
+) {
+  const [heading, ...rest] = sectionBlocks(section);
+  const context = { quote: false, depth: 0 };
+  const title =
+    heading.type === 'heading'
+      ? paragraph(
+          `<w:bookmarkStart w:id="${index}" w:name="${bookmarkName(index)}"/>${runs(heading.children, state)}<w:bookmarkEnd w:id="${index}"/>`,
+          { style: headingStyleId(heading.level) },
+        )
+      : renderBlock(heading, state, context);
+  return title + rest.map((b) => renderBlock(b, state, context)).join('');
+}
+
+/**
+ * A Word TOC field whose current result already lists the sections, so it
+ * reads correctly before Word is asked to update it.
+ */
+function tableOfContents(headings: Array<string>) {
+  if (!headings.length) {
+    return '';
+  }
+  const entries = headings.map((h, i) => {
+    const begin =
+      i === 0
+        ? '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-1" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>'
+        : '';
+    const end =
+      i === headings.length - 1
+        ? '<w:r><w:fldChar w:fldCharType="end"/></w:r>'
+        : '';
+    return paragraph(
+      `${begin}<w:hyperlink w:anchor="${bookmarkName(i)}" w:history="1">${run(h)}</w:hyperlink>${end}`,
+      { style: 'TOC1' },
+    );
+  });
+  return (
+    paragraph(run('Contents'), { style: 'TOCHeading' }) +
+    entries.join('') +
+    '<w:p><w:r><w:br w:type="page"/></w:r></w:p>'
+  );
+}
+
+function numberingPart(orderedLists: Array<number>) {
+  const ordered = orderedLists
+    .map(
+      (start, i) =>
+        `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`,
+    )
+    .join('');
+  return `${XML_DECLARATION}<w:numbering ${NAMESPACES}>
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${BULLET_LEVELS}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${DECIMAL_LEVELS}</w:abstractNum>
+<w:num w:numId="${BULLET_LIST}"><w:abstractNumId w:val="0"/></w:num>${ordered}
+</w:numbering>`;
+}
+
+function documentRels(links: Array<string>) {
+  const hyperlinks = links
+    .map(
+      (href, i) =>
+        `<Relationship Id="rIdLink${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`,
+    )
+    .join('\n');
+  return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+${hyperlinks}
+</Relationships>`;
+}
+
+function coreProperties(book: ExportBook) {
+  return `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXml(`${book.title || 'Untitled'} (distilled)`)}</dc:title>
+<dc:description>${escapeXml(distilledFrom(book))}</dc:description>
+<dc:language>${escapeXml(book.language || 'en')}</dc:language>
+</cp:coreProperties>`;
+}
+
+/**
+ * A Word document of the accepted sections: title, a table of contents, then
+ * each section with heading, quote and list styles Word knows.
+ */
+export function buildDocx(book: ExportBook) {
+  const state: DocxState = { links: [], orderedLists: [] };
+  const body = [
+    paragraph(run(book.title || 'Untitled'), { style: 'Title' }),
+    paragraph(run(distilledFrom(book)), { style: 'Subtitle' }),
+    tableOfContents(book.sections.map((s) => s.heading)),
+    ...book.sections.map((s, i) => renderSection(s, i, state)),
+  ].join('\n');
+  const document = `${XML_DECLARATION}<w:document ${NAMESPACES}><w:body>
+${body}
+<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>
+</w:body></w:document>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  zip.file('_rels/.rels', PACKAGE_RELS);
+  zip.file('docProps/core.xml', coreProperties(book));
+  zip.file('word/document.xml', document);
+  zip.file('word/styles.xml', STYLES);
+  zip.file('word/numbering.xml', numberingPart(state.orderedLists));
+  zip.file('word/_rels/document.xml.rels', documentRels(state.links));
+  return zip;
+}
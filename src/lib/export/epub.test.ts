@@ -0,0 +1,117 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, test } from 'vitest';
+
+import { extractTextFromEPUB } from '@/lib/extract/epub';
+
+import { buildEpub } from './epub';
+
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const MODIFIED = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/;
+
+const book = {
+  title: 'Walden',
+  author: 'Henry David Thoreau',
+  language: 'en',
+  sections: [
+    {
+      heading: 'Economy',
+      content:
+        '# Economy\n\nSimplify, **simplify**.\n\n> "I went to the woods."',
+    },
+    {
+      heading: 'Solitude & Visitors',
+      content: 'No heading of its own <here>.',
+    },
+  ],
+};
+
+function parseXml(xml: string, path: string) {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror'), path).toHaveLength(0);
+  return doc;
+}
+
+/** The container, package and content checks epubcheck starts with. */
+async function checkStructure(data: Uint8Array) {
+  const decoder = new TextDecoder();
+  // First local file header: the uncompressed "mimetype" entry
+  expect(data[8] | (data[9] << 8)).toBe(0);
+  expect(decoder.decode(data.slice(30, 38))).toBe('mimetype');
+  expect(decoder.decode(data.slice(38, 58))).toBe('application/epub+zip');
+
+  const zip = await JSZip.loadAsync(data);
+  const read = async (path: string) => {
+    const file = zip.file(path);
+    expect(file, path).not.toBeNull();
+    return (await file?.async('string')) ?? '';
+  };
+  const container = parseXml(await read('META-INF/container.xml'), 'container');
+  const opfPath =
+    container.querySelector('rootfile')?.getAttribute('full-path') ?? '';
+  const base = opfPath.slice(0, opfPath.lastIndexOf('/') + 1);
+  const opf = parseXml(await read(opfPath), opfPath);
+
+  const uid = opf.documentElement.getAttribute('unique-identifier');
+  expect(opf.documentElement.getAttribute('version')).toBe('3.0');
+  expect(opf.getElementById(uid ?? '')?.localName).toBe('identifier');
+  for (const name of ['identifier', 'title', 'language']) {
+    expect(opf.getElementsByTagNameNS(DC_NS, name).length, name).toBe(1);
+  }
+  const modified = opf.querySelector('meta[property="dcterms:modified"]');
+  expect(modified?.textContent).toMatch(MODIFIED);
+
+  const items = [...opf.getElementsByTagNameNS(OPF_NS, 'item')];
+  const ids = new Set(items.map((i) => i.getAttribute('id')));
+  expect(ids.size).toBe(items.length);
+  expect(
+    items.filter((i) => i.getAttribute('properties') === 'nav'),
+  ).toHaveLength(1);
+  for (const item of items) {
+    const path = base + item.getAttribute('href');
+    const text = await read(path);
+    if (item.getAttribute('media-type') === 'application/xhtml+xml') {
+      parseXml(text, path);
+    }
+  }
+  const spine = [...opf.getElementsByTagNameNS(OPF_NS, 'itemref')];
+  expect(spine.length).toBeGreaterThan(0);
+  for (const ref of spine) {
+    expect(ids.has(ref.getAttribute('idref'))).toBe(true);
+  }
+  return { zip, opf, base };
+}
+
+describe('buildEpub', () => {
+  test('passes the structural checks', async () => {
+    const data = await buildEpub(book).generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+    });
+    const { zip, opf } = await checkStructure(data);
+    expect(
+      opf.getElementsByTagNameNS(DC_NS, 'description')[0].textContent,
+    ).toBe('Distilled from Walden by Henry David Thoreau');
+    const second = await zip
+      .file('OEBPS/text/section-002.xhtml')
+      ?.async('string');
+    expect(second).toContain('<h1>Solitude &amp; Visitors</h1>');
+    expect(second).toContain('&lt;here&gt;');
+  });
+
+  test('reads back with one chapter per section', async () => {
+    const data = await buildEpub(book).generateAsync({ type: 'arraybuffer' });
+    // jsdom's Blob has no arrayBuffer(), so hand over a minimal stand-in
+    const { metadata, chapters, text } = await extractTextFromEPUB({
+      arrayBuffer: () => Promise.resolve(data),
+    } as Blob);
+    expect(metadata.title).toBe('Walden (distilled)');
+    expect(chapters.map((c) => c.title)).toEqual([
+      'Title page',
+      'Economy',
+      'Solitude & Visitors',
+    ]);
+    expect(text).toContain('Simplify, simplify.');
+  });
+});
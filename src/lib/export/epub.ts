@@ -0,0 +1,160 @@
+import JSZip from 'jszip';
+
+import { escapeXml, renderBlocks } from './html';
+import { sectionBlocks } from './markdown';
+import { distilledFrom, type ExportBook, type ExportSection } from './types';
+
+const STYLE = `body { font-family: serif; line-height: 1.5; margin: 0 1em; }
+h1, h2, h3 { font-family: sans-serif; line-height: 1.2; }
+blockquote { margin: 1em 1.5em; font-style: italic; }
+pre { white-space: pre-wrap; font-size: 0.9em; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 0.2em 0.4em; }
+.footnotes { font-size: 0.9em; }
+.byline { font-style: italic; }`;
+
+const FRACTIONAL_SECONDS = /\.\d+Z$/;
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+type EpubOptions = {
+  /** Goes into the `urn:uuid:` identifier; random by default. */
+  id?: string;
+  modified?: Date;
+};
+
+const chapterPath = (index: number) =>
+  `text/section-${String(index + 1).padStart(3, '0')}.xhtml`;
+
+function xhtmlPage(
+  language: string,
+  title: string,
+  body: string,
+  stylesheet = '../style.css',
+) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="${stylesheet}" />
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function chapterBody(section: ExportSection) {
+  return `<section epub:type="chapter">
+${renderBlocks(sectionBlocks(section))}
+</section>`;
+}
+
+function navDocument(language: string, headings: Array<string>) {
+  const items = headings
+    .map(
+      (h, i) =>
+        `      <li><a href="${chapterPath(i)}">${escapeXml(h)}</a></li>`,
+    )
+    .join('\n');
+  return xhtmlPage(
+    language,
+    'Contents',
+    `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+      <li><a href="text/title.xhtml">Title page</a></li>
+${items}
+  </ol>
+</nav>`,
+    'style.css',
+  );
+}
+
+function packageDocument(
+  book: ExportBook,
+  language: string,
+  id: string,
+  modified: Date,
+) {
+  const title = book.title || 'Untitled';
+  const chapters = book.sections.map((_, i) => ({
+    id: `section-${i + 1}`,
+    href: chapterPath(i),
+  }));
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="style" href="style.css" media-type="text/css"/>',
+    '<item id="title" href="text/title.xhtml" media-type="application/xhtml+xml"/>',
+    ...chapters.map(
+      (c) =>
+        `<item id="${c.id}" href="${c.href}" media-type="application/xhtml+xml"/>`,
+    ),
+  ];
+  const spine = ['title', ...chapters.map((c) => c.id)].map(
+    (idref) => `<itemref idref="${idref}"/>`,
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${id}</dc:identifier>
+    <dc:title>${escapeXml(`${title} (distilled)`)}</dc:title>
+${book.author ? `    <dc:creator>${escapeXml(book.author)}</dc:creator>\n` : ''}    <dc:description>${escapeXml(distilledFrom(book))}</dc:description>
+    <dc:language>${language}</dc:language>
+    <meta property="dcterms:modified">${modified.toISOString().replace(FRACTIONAL_SECONDS, 'Z')}</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>`;
+}
+
+/**
+ * An EPUB 3 of the accepted sections: a title page, then one chapter per
+ * section titled by its heading, with a nav document listing them.
+ */
+export function buildEpub(
+  book: ExportBook,
+  { id = crypto.randomUUID(), modified = new Date() }: EpubOptions = {},
+) {
+  const language = escapeXml(book.language || 'en');
+  const title = book.title || 'Untitled';
+  const zip = new JSZip();
+  // Must be the first entry and stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', CONTAINER);
+  zip.file('OEBPS/content.opf', packageDocument(book, language, id, modified));
+  zip.file(
+    'OEBPS/nav.xhtml',
+    navDocument(
+      language,
+      book.sections.map((s) => s.heading),
+    ),
+  );
+  zip.file('OEBPS/style.css', STYLE);
+  zip.file(
+    'OEBPS/text/title.xhtml',
+    xhtmlPage(
+      language,
+      title,
+      `<h1>${escapeXml(title)}</h1>\n<p class="byline">${escapeXml(distilledFrom(book))}</p>`,
+    ),
+  );
+  book.sections.forEach((s, i) => {
+    zip.file(
+      `OEBPS/${chapterPath(i)}`,
+      xhtmlPage(language, s.heading, chapterBody(s)),
+    );
+  });
+  return zip;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'vitest';
+
+import { buildHtmlDocument } from './html';
+
+const EXTERNAL_RESOURCE = /<link|<script/;
+
+describe('buildHtmlDocument', () => {
+  const html = buildHtmlDocument({
+    title: 'Walden <1854>',
+    author: 'Thoreau',
+    sections: [
+      { heading: 'Economy', content: '# Economy\n\n> Simplify.' },
+      { heading: 'Solitude', content: 'Alone.[^1]\n\n[^1]: Mostly.' },
+    ],
+  });
+
+  test('links a table of contents to each section', () => {
+    expect(html).toContain('<li><a href="#section-1">Economy</a></li>');
+    expect(html).toContain('<section id="section-2">\n<h1>Solitude</h1>');
+    expect(html).toContain('<blockquote>\n<p>Simplify.</p>\n</blockquote>');
+    // Footnote ids are scoped to their section
+    expect(html).toContain('<a href="#section-2-fn-1">1</a>');
+    expect(html).toContain('<li id="section-2-fn-1">Mostly.</li>');
+  });
+
+  test('is self-contained with a print stylesheet', () => {
+    expect(html).toContain('<title>Walden &lt;1854&gt; (distilled)</title>');
+    expect(html).toContain('@media print');
+    expect(html).not.toMatch(EXTERNAL_RESOURCE);
+  });
+});
@@ -0,0 +1,204 @@
+import {
+  type Block,
+  type Inline,
+  parseMarkdown,
+  sectionBlocks,
+  type TableAlign,
+} from './markdown';
+import { distilledFrom, type ExportBook } from './types';
+
+const XML_SPECIAL = /[&<>"']/g;
+// Control characters other than tab and newlines, which XML can't carry
+const XML_INVALID = /(?![\t\n\r])[\p{Cc}\uFFFE\uFFFF]/gu;
+const SAFE_HREF = /^(https?:|mailto:|#)/i;
+
+const DOCUMENT_STYLE = `body { max-width: 42rem; margin: 2rem auto; padding: 0 1rem; font: 17px/1.6 Georgia, serif; color: #1a1a1a; }
+h1, h2, h3, h4 { font-family: system-ui, sans-serif; line-height: 1.25; }
+header { margin-bottom: 2rem; }
+.byline { font-style: italic; color: #555; }
+nav.toc ol { padding-left: 1.25rem; }
+nav.toc a { color: inherit; }
+section { margin-top: 3rem; }
+blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 3px solid #ccc; font-style: italic; color: #333; }
+pre { white-space: pre-wrap; background: #f5f5f5; padding: 0.75rem; }
+code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; }
+.footnotes { font-size: 0.9em; }
+@media print {
+  body { max-width: none; margin: 0; font-size: 11pt; }
+  nav.toc { break-after: page; }
+  section { margin-top: 0; break-before: page; }
+  h1, h2, h3, h4 { break-after: avoid; }
+  blockquote, pre { break-inside: avoid; }
+  a { color: inherit; text-decoration: none; }
+}`;
+
+const ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** Escapes text for XML and HTML alike. */
+export function escapeXml(text: string) {
+  return text.replace(XML_INVALID, '').replace(XML_SPECIAL, (c) => ENTITIES[c]);
+}
+
+/** Ids for footnotes, prefixed so several documents can share one page. */
+const noteId = (prefix: string, number: number) => `${prefix}fn-${number}`;
+
+function renderInline(nodes: Array<Inline>, prefix: string): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case 'text':
+          return escapeXml(n.text);
+        case 'code':
+          return `<code>${escapeXml(n.text)}</code>`;
+        case 'break':
+          return '<br />';
+        case 'strong':
+          return `<strong>${renderInline(n.children, prefix)}</strong>`;
+        case 'em':
+          return `<em>${renderInline(n.children, prefix)}</em>`;
+        case 'footnote':
+          return `<sup><a href="#${noteId(prefix, n.number)}">${n.number}</a></sup>`;
+        default:
+          // Only web and mail links survive; anything else becomes its label
+          return SAFE_HREF.test(n.href)
+            ? `<a href="${escapeXml(n.href)}">${renderInline(n.children, prefix)}</a>`
+            : renderInline(n.children, prefix);
+      }
+    })
+    .join('');
+}
+
+/** A list item holding just one paragraph is written without the `<p>`. */
+function renderItem(blocks: Array<Block>, prefix: string) {
+  const [only] = blocks;
+  return blocks.length === 1 && only.type === 'paragraph'
+    ? renderInline(only.children, prefix)
+    : renderBlocks(blocks, prefix);
+}
+
+function renderRow(
+  cells: Array<Array<Inline>>,
+  align: Array<TableAlign>,
+  tag: 'th' | 'td',
+  prefix: string,
+) {
+  const row = cells.map((cell, i) => {
+    const style = align[i] ? ` style="text-align: ${align[i]}"` : '';
+    return `<${tag}${style}>${renderInline(cell, prefix)}</${tag}>`;
+  });
+  return `<tr>${row.join('')}</tr>`;
+}
+
+function renderTable(
+  { align, header, rows }: Extract<Block, { type: 'table' }>,
+  prefix: string,
+) {
+  const body = rows.map((row) => renderRow(row, align, 'td', prefix));
+  return `<table>
+<thead>
+${renderRow(header, align, 'th', prefix)}
+</thead>
+<tbody>
+${body.join('\n')}
+</tbody>
+</table>`;
+}
+
+/**
+ * Markup that is valid both as HTML and as XHTML (void elements are
+ * self-closed), so EPUB chapters and standalone HTML share it. `prefix` goes
+ * before footnote ids.
+ */
+export function renderBlocks(blocks: Array<Block>, prefix = ''): string {
+  return blocks
+    .map((b) => {
+      switch (b.type) {
+        case 'heading':
+          return `<h${b.level}>${renderInline(b.children, prefix)}</h${b.level}>`;
+        case 'paragraph':
+          return `<p>${renderInline(b.children, prefix)}</p>`;
+        case 'blockquote':
+          return `<blockquote>\n${renderBlocks(b.children, prefix)}\n</blockquote>`;
+        case 'code':
+          return `<pre><code>${escapeXml(b.text)}</code></pre>`;
+        case 'rule':
+          return '<hr />';
+        case 'table':
+          return renderTable(b, prefix);
+        case 'footnotes': {
+          const items = b.items.map(
+            (f) =>
+              `<li id="${noteId(prefix, f.number)}">${renderItem(f.children, prefix)}</li>`,
+          );
+          return `<section class="footnotes">\n<hr />\n<ol>\n${items.join('\n')}\n</ol>\n</section>`;
+        }
+        default: {
+          const tag = b.ordered ? 'ol' : 'ul';
+          const start = b.ordered && b.start !== 1 ? ` start="${b.start}"` : '';
+          const items = b.items.map(
+            (item) => `<li>${renderItem(item, prefix)}</li>`,
+          );
+          return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+        }
+      }
+    })
+    .join('\n');
+}
+
+export function markdownToHtml(markdown: string) {
+  return renderBlocks(parseMarkdown(markdown));
+}
+
+/**
+ * A self-contained HTML page of the accepted sections: inline CSS with a print
+ * stylesheet, and a table of contents linking to each section's heading.
+ */
+export function buildHtmlDocument(book: ExportBook) {
+  const title = book.title || 'Untitled';
+  const sections = book.sections.map((s, i) => ({
+    id: `section-${i + 1}`,
+    title: s.heading,
+    html: renderBlocks(sectionBlocks(s), `section-${i + 1}-`),
+  }));
+  const toc = sections
+    .map((s) => `<li><a href="#${s.id}">${escapeXml(s.title)}</a></li>`)
+    .join('\n');
+  const body = sections
+    .map((s) => `<section id="${s.id}">\n${s.html}\n</section>`)
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(book.language || 'en')}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeXml(`${title} (distilled)`)}</title>
+<style>
+${DOCUMENT_STYLE}
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeXml(title)}</h1>
+<p class="byline">${escapeXml(distilledFrom(book))}</p>
+</header>
+<nav class="toc">
+<h2>Contents</h2>
+<ol>
+${toc}
+</ol>
+</nav>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,164 @@
+import { describe, expect, test } from 'vitest';
+
+import { markdownToHtml } from './html';
+import { inlineText, parseInline, parseMarkdown } from './markdown';
+
+describe('parseInline', () => {
+  test('reads emphasis, code, links and escapes', () => {
+    expect(parseInline('a **b *c*** `d` [e](http://x) \\*f')).toEqual([
+      { type: 'text', text: 'a ' },
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'b ' },
+          { type: 'em', children: [{ type: 'text', text: 'c' }] },
+        ],
+      },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'd' },
+      { type: 'text', text: ' ' },
+      {
+        type: 'link',
+        href: 'http://x',
+        children: [{ type: 'text', text: 'e' }],
+      },
+      { type: 'text', text: ' *f' },
+    ]);
+  });
+
+  test('leaves underscores inside words alone', () => {
+    expect(inlineText(parseInline('snake_case_name and _em_'))).toBe(
+      'snake_case_name and em',
+    );
+  });
+});
+
+describe('parseMarkdown', () => {
+  test('reads the block structure of a typical section', () => {
+    const blocks = parseMarkdown(
+      [
+        '# Economy',
+        '',
+        'First line',
+        'continues here.',
+        '',
+        '> "Quoted',
+        '> excerpt."',
+        '',
+        '- one',
+        '- two',
+        '  - nested',
+        '',
+        '3. three',
+        '',
+        '---',
+      ].join('\n'),
+    );
+    expect(blocks.map((b) => b.type)).toEqual([
+      'heading',
+      'paragraph',
+      'blockquote',
+      'list',
+      'list',
+      'rule',
+    ]);
+    expect(blocks[1]).toEqual({
+      type: 'paragraph',
+      children: [{ type: 'text', text: 'First line continues here.' }],
+    });
+    const bullets = blocks[3];
+    expect(bullets.type === 'list' && bullets.items.length).toBe(2);
+    expect(blocks[4]).toMatchObject({ ordered: true, start: 3 });
+  });
+
+  test('reads GFM tables with alignment and escaped pipes', () => {
+    const [intro, table] = parseMarkdown(
+      [
+        'Before',
+        '| Term | Count |',
+        '| :--- | ---: |',
+        '| a \\| b | 2 |',
+        '| *c* |',
+        '',
+        'After',
+      ].join('\n'),
+    );
+    expect(intro.type).toBe('paragraph');
+    expect(table).toEqual({
+      type: 'table',
+      align: ['left', 'right'],
+      header: [
+        [{ type: 'text', text: 'Term' }],
+        [{ type: 'text', text: 'Count' }],
+      ],
+      rows: [
+        [[{ type: 'text', text: 'a | b' }], [{ type: 'text', text: '2' }]],
+        [[{ type: 'em', children: [{ type: 'text', text: 'c' }] }], []],
+      ],
+    });
+  });
+
+  test('numbers footnotes by first use and gathers them at the end', () => {
+    const blocks = parseMarkdown(
+      [
+        '[^b]: Defined first,',
+        'lazily continued.',
+        '',
+        'One[^a], two[^b], again[^a], missing[^x].',
+        '',
+        '[^a]: Note A.',
+      ].join('\n'),
+    );
+    expect(blocks.map((b) => b.type)).toEqual(['paragraph', 'footnotes']);
+    const [paragraph, notes] = blocks;
+    const refs =
+      paragraph.type === 'paragraph'
+        ? paragraph.children.filter((n) => n.type === 'footnote')
+        : [];
+    expect(refs.map((n) => n.number)).toEqual([1, 2, 1]);
+    expect(
+      paragraph.type === 'paragraph' && inlineText(paragraph.children),
+    ).toBe('One, two, again, missing[^x].');
+    expect(notes.type === 'footnotes' && notes.items).toEqual([
+      {
+        label: 'a',
+        number: 1,
+        children: [
+          { type: 'paragraph', children: [{ type: 'text', text: 'Note A.' }] },
+        ],
+      },
+      {
+        label: 'b',
+        number: 2,
+        children: [
+          {
+            type: 'paragraph',
+            children: [
+              { type: 'text', text: 'Defined first, lazily continued.' },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('markdownToHtml', () => {
+  test('writes self-closed, escaped markup', () => {
+    expect(markdownToHtml('A & B  \nC <d> [x](javascript:void)\n\n***')).toBe(
+      '<p>A &amp; B<br />C &lt;d&gt; x</p>\n<hr />',
+    );
+  });
+
+  test('writes tight list items without paragraphs', () => {
+    expect(markdownToHtml('- **a**\n- b')).toBe(
+      '<ul>\n<li><strong>a</strong></li>\n<li>b</li>\n</ul>',
+    );
+  });
+
+  test('links footnote references to their notes', () => {
+    expect(markdownToHtml('Text[^1]\n\n[^1]: Note.')).toBe(
+      '<p>Text<sup><a href="#fn-1">1</a></sup></p>\n<section class="footnotes">\n<hr />\n<ol>\n<li id="fn-1">Note.</li>\n</ol>\n</section>',
+    );
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * A small Markdown reader for the subset models write: ATX headings,
+ * paragraphs, block quotes, lists, fenced code, rules, emphasis, inline code
+ * and links, plus GFM tables and footnotes. Exporters and the preview render
+ * the resulting tree to their own formats.
+ */
+
+import type { ExportSection } from './types';
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: Array<Inline> }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Array<Inline> }
+  | { type: 'break' }
+  /** Reference to a footnote; `number` follows the order of first use. */
+  | { type: 'footnote'; label: string; number: number };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Footnote = {
+  label: string;
+  number: number;
+  children: Array<Block>;
+};
+
+export type Block =
+  | { type: 'heading'; level: number; children: Array<Inline> }
+  | { type: 'paragraph'; children: Array<Inline> }
+  | { type: 'blockquote'; children: Array<Block> }
+  | {
+      type: 'list';
+      ordered: boolean;
+      start: number;
+      items: Array<Array<Block>>;
+    }
+  | { type: 'code'; text: string }
+  | { type: 'rule' }
+  | {
+      type: 'table';
+      align: Array<TableAlign>;
+      header: Array<Array<Inline>>;
+      rows: Array<Array<Array<Inline>>>;
+    }
+  /** Footnote definitions, gathered at the end of the document. */
+  | { type: 'footnotes'; items: Array<Footnote> };
+
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|(\d{1,9})[.)])(\s+|$)/;
+const BLANK = /^\s*$/;
+const CARRIAGE_RETURN = /\r\n?/g;
+const LEADING_SPACES = /^ */;
+const LINE_BREAK = / {2,}$|\\$/;
+const TRAILING_BREAK = /(?: {2,}|\\)$/;
+const INLINE =
+  /(`+)(.+?)\1|\*\*(?=\S)(.+?)\*\*(?!\*)|__(?=\S)(.+?)__(?!\w)|\*(?=[^\s*])(.+?)\*|(?<!\w)_(?=[^\s_])(.+?)_(?!\w)|\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)|\\([\\`*_{}[\]()#+\-.!>|])|\[\^([^\]\s]+)\]/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const CELL_SEPARATOR = /(?<!\\)\|/;
+const EDGE_PIPES = /^\s*\||\|\s*$/g;
+const FOOTNOTE_DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:\s?(.*)$/;
+const INDENTED = /^( {4}|\t)/;
+
+type ListMarker = { indent: number; ordered: boolean; start: number };
+
+function listMarker(line: string): ListMarker | null {
+  const m = line.match(LIST_ITEM);
+  if (!m) {
+    return null;
+  }
+  return {
+    // Continuation lines must be indented past the marker
+    indent: m[1].length + m[2].length + Math.min(m[4].length || 1, 4),
+    ordered: m[3] !== undefined,
+    start: m[3] === undefined ? 1 : Number(m[3]),
+  };
+}
+
+function startsBlock(line: string) {
+  return (
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    FENCE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    FOOTNOTE_DEFINITION.test(line)
+  );
+}
+
+/** A line with a pipe followed by a delimiter row such as `| --- | :-: |`. */
+function startsTable(lines: Array<string>, i: number) {
+  const delimiter = lines[i + 1];
+  return (
+    CELL_SEPARATOR.test(lines[i]) &&
+    delimiter !== undefined &&
+    TABLE_DELIMITER.test(delimiter)
+  );
+}
+
+/** Removes up to `width` leading spaces. */
+function dedent(line: string, width: number) {
+  const spaces = line.match(LEADING_SPACES)?.[0].length ?? 0;
+  return line.slice(Math.min(spaces, width));
+}
+
+/** The node for one {@link INLINE} match; escapes come back as text. */
+function inlineNode(m: RegExpMatchArray): Inline {
+  const [, , code, strong, strong2, em, em2, label, href, escaped, note] = m;
+  if (code !== undefined) {
+    return { type: 'code', text: code.trim() || code };
+  }
+  if (strong !== undefined || strong2 !== undefined) {
+    return { type: 'strong', children: parseInline(strong ?? strong2) };
+  }
+  if (em !== undefined || em2 !== undefined) {
+    return { type: 'em', children: parseInline(em ?? em2) };
+  }
+  if (label !== undefined) {
+    return { type: 'link', href, children: parseInline(label) };
+  }
+  if (note !== undefined) {
+    // Numbered once the whole document has been read
+    return { type: 'footnote', label: note, number: 0 };
+  }
+  return { type: 'text', text: escaped };
+}
+
+/** Appends a node, merging adjacent text and dropping empty text. */
+function append(out: Array<Inline>, node: Inline) {
+  const last = out.at(-1);
+  if (node.type !== 'text') {
+    out.push(node);
+  } else if (last?.type === 'text') {
+    last.text += node.text;
+  } else if (node.text) {
+    out.push(node);
+  }
+  return out;
+}
+
+export function parseInline(text: string): Array<Inline> {
+  const out: Array<Inline> = [];
+  let rest = text;
+  while (rest) {
+    const m = rest.match(INLINE);
+    const end = m?.index ?? rest.length;
+    append(out, { type: 'text', text: rest.slice(0, end) });
+    if (m) {
+      append(out, inlineNode(m));
+    }
+    rest = m ? rest.slice(end + m[0].length) : '';
+  }
+  return out;
+}
+
+/** Paragraph lines: hard breaks where a line ends in two spaces or `\`. */
+function paragraphInline(lines: Array<string>) {
+  const out: Array<Inline> = [];
+  lines.forEach((line, i) => {
+    const last = i === lines.length - 1;
+    const hardBreak = !last && LINE_BREAK.test(line);
+    const content = (
+      hardBreak ? line.replace(TRAILING_BREAK, '') : line
+    ).trim();
+    out.push(...parseInline(last || hardBreak ? content : `${content} `));
+    if (hardBreak) {
+      out.push({ type: 'break' });
+    }
+  });
+  // Merge text runs split across lines
+  return out.reduce(append, []);
+}
+
+type Parsed = { block: Block; next: number };
+
+/** Footnote definitions by label, collected from the top level only. */
+type Definitions = Map<string, Array<Block>>;
+
+function parseFence(lines: Array<string>, i: number, fence: string): Parsed {
+  const body: Array<string> = [];
+  let j = i + 1;
+  while (j < lines.length && !lines[j].trim().startsWith(fence)) {
+    body.push(lines[j]);
+    j++;
+  }
+  return { block: { type: 'code', text: body.join('\n') }, next: j + 1 };
+}
+
+function parseQuote(lines: Array<string>, i: number): Parsed {
+  const body: Array<string> = [];
+  let j = i;
+  while (j < lines.length && QUOTE.test(lines[j])) {
+    body.push(lines[j].replace(QUOTE, ''));
+    j++;
+  }
+  return {
+    block: { type: 'blockquote', children: parseBlocks(body.join('\n')) },
+    next: j,
+  };
+}
+
+function parseList(lines: Array<string>, i: number, first: ListMarker): Parsed {
+  const items: Array<Array<string>> = [];
+  let j = i;
+  let indent = first.indent;
+  while (j < lines.length) {
+    const line = lines[j];
+    const marker = listMarker(line);
+    if (
+      marker &&
+      marker.ordered === first.ordered &&
+      !line.startsWith(' '.repeat(indent))
+    ) {
+      indent = marker.indent;
+      items.push([line.slice(Math.min(indent, line.length))]);
+    } else if (BLANK.test(line)) {
+      // A blank line ends the list unless an item or continuation follows
+      const after = lines[j + 1];
+      const continues =
+        after !== undefined &&
+        (after.startsWith(' '.repeat(indent)) ||
+          listMarker(after)?.ordered === first.ordered);
+      if (!continues) {
+        break;
+      }
+      items.at(-1)?.push('');
+    } else if (line.startsWith(' '.repeat(indent)) || !startsBlock(line)) {
+      // Indented continuation, or a lazy paragraph continuation
+      items.at(-1)?.push(dedent(line, indent));
+    } else {
+      break;
+    }
+    j++;
+  }
+  return {
+    block: {
+      type: 'list',
+      ordered: first.ordered,
+      start: first.start,
+      items: items.map((item) => parseBlocks(item.join('\n'))),
+    },
+    next: j,
+  };
+}
+
+function splitRow(line: string) {
+  return line
+    .replace(EDGE_PIPES, '')
+    .split(CELL_SEPARATOR)
+    .map((cell) => cell.trim());
+}
+
+function alignment(delimiter: string): TableAlign {
+  const left = delimiter.startsWith(':');
+  const right = delimiter.endsWith(':');
+  if (left && right) {
+    return 'center';
+  }
+  if (right) {
+    return 'right';
+  }
+  return left ? 'left' : null;
+}
+
+/** A GFM table; rows run until a blank line or a line without a pipe. */
+function parseTable(lines: Array<string>, i: number): Parsed {
+  const header = splitRow(lines[i]);
+  const delimiters = splitRow(lines[i + 1]);
+  const rows: Array<Array<string>> = [];
+  let j = i + 2;
+  while (
+    j < lines.length &&
+    !BLANK.test(lines[j]) &&
+    CELL_SEPARATOR.test(lines[j])
+  ) {
+    rows.push(splitRow(lines[j]));
+    j++;
+  }
+  // Every row is as wide as the header: extra cells dropped, missing ones empty
+  const cells = (row: Array<string>) =>
+    header.map((_, k) => parseInline(row[k] ?? ''));
+  return {
+    block: {
+      type: 'table',
+      align: header.map((_, k) => alignment(delimiters[k] ?? '')),
+      header: cells(header),
+      rows: rows.map(cells),
+    },
+    next: j,
+  };
+}
+
+/**
+ * A `[^label]: text` definition; later lines belong to it when indented, or
+ * as a lazy continuation of its last paragraph.
+ */
+function parseDefinition(
+  lines: Array<string>,
+  i: number,
+  [, label, first]: RegExpMatchArray,
+) {
+  const body = [first];
+  let j = i + 1;
+  while (j < lines.length) {
+    const line = lines[j];
+    if (INDENTED.test(line)) {
+      body.push(line.replace(INDENTED, ''));
+    } else if (BLANK.test(line) && INDENTED.test(lines[j + 1] ?? '')) {
+      body.push('');
+    } else if (
+      BLANK.test(line) ||
+      startsBlock(line) ||
+      BLANK.test(body.at(-1) ?? '')
+    ) {
+      break;
+    } else {
+      body.push(line);
+    }
+    j++;
+  }
+  return { label, children: parseBlocks(body.join('\n')), next: j };
+}
+
+function parseBlock(lines: Array<string>, i: number): Parsed {
+  const line = lines[i];
+  const heading = line.match(HEADING);
+  if (heading) {
+    return {
+      block: {
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2] ?? ''),
+      },
+      next: i + 1,
+    };
+  }
+  if (RULE.test(line)) {
+    return { block: { type: 'rule' }, next: i + 1 };
+  }
+  const fence = line.match(FENCE);
+  if (fence) {
+    return parseFence(lines, i, fence[1]);
+  }
+  if (QUOTE.test(line)) {
+    return parseQuote(lines, i);
+  }
+  const marker = listMarker(line);
+  if (marker) {
+    return parseList(lines, i, marker);
+  }
+  if (startsTable(lines, i)) {
+    return parseTable(lines, i);
+  }
+  const body = [line];
+  let j = i + 1;
+  while (
+    j < lines.length &&
+    !BLANK.test(lines[j]) &&
+    !startsBlock(lines[j]) &&
+    !startsTable(lines, j)
+  ) {
+    body.push(lines[j]);
+    j++;
+  }
+  return {
+    block: { type: 'paragraph', children: paragraphInline(body) },
+    next: j,
+  };
+}
+
+/**
+ * Blocks of a document or of a container's content. Footnote definitions are
+ * only recognised where `definitions` is given; elsewhere they read as text.
+ */
+function parseBlocks(markdown: string, definitions?: Definitions) {
+  const lines = markdown.replace(CARRIAGE_RETURN, '\n').split('\n');
+  const blocks: Array<Block> = [];
+  let i = 0;
+  while (i < lines.length) {
+    const definition = definitions && lines[i].match(FOOTNOTE_DEFINITION);
+    if (BLANK.test(lines[i])) {
+      i++;
+    } else if (definition) {
+      const { label, children, next } = parseDefinition(lines, i, definition);
+      if (!definitions.has(label)) {
+        definitions.set(label, children);
+      }
+      i = next;
+    } else {
+      const { block, next } = parseBlock(lines, i);
+      blocks.push(block);
+      i = next;
+    }
+  }
+  return blocks;
+}
+
+/** Calls `visit` on every run of inline content, in document order. */
+function eachInline(
+  blocks: Array<Block>,
+  visit: (nodes: Array<Inline>) => void,
+) {
+  const inline = (nodes: Array<Inline>) => {
+    visit(nodes);
+    for (const node of nodes) {
+      if ('children' in node) {
+        inline(node.children);
+      }
+    }
+  };
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        inline(block.children);
+        break;
+      case 'blockquote':
+        eachInline(block.children, visit);
+        break;
+      case 'list':
+        for (const item of block.items) {
+          eachInline(item, visit);
+        }
+        break;
+      case 'table':
+        for (const cell of [...block.header, ...block.rows.flat()]) {
+          inline(cell);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Numbers footnote references by first use and appends their definitions;
+ * a reference with no definition is left as the text it was written as.
+ */
+function withFootnotes(blocks: Array<Block>, definitions: Definitions) {
+  const items: Array<Footnote> = [];
+  const number = (nodes: Array<Inline>) => {
+    nodes.forEach((node, k) => {
+      if (node.type !== 'footnote') {
+        return;
+      }
+      const children = definitions.get(node.label);
+      if (!children) {
+        nodes[k] = { type: 'text', text: `[^${node.label}]` };
+        return;
+      }
+      let item = items.find((f) => f.label === node.label);
+      if (!item) {
+        item = { label: node.label, number: items.length + 1, children };
+        items.push(item);
+      }
+      node.number = item.number;
+    });
+  };
+  eachInline(blocks, number);
+  // Definitions can cite further notes; those join the end of the list
+  for (let k = 0; k < items.length; k++) {
+    eachInline(items[k].children, number);
+  }
+  return items.length
+    ? [...blocks, { type: 'footnotes', items } satisfies Block]
+    : blocks;
+}
+
+export function parseMarkdown(markdown: string): Array<Block> {
+  const definitions: Definitions = new Map();
+  return withFootnotes(parseBlocks(markdown, definitions), definitions);
+}
+
+/** Plain text of inline content, e.g. for headings in a table of contents. */
+export function inlineText(nodes: Array<Inline>): string {
+  return nodes
+    .map((n) => {
+      switch (n.type) {
+        case 'text':
+        case 'code':
+          return n.text;
+        case 'break':
+          return ' ';
+        case 'footnote':
+          return '';
+        default:
+          return inlineText(n.children);
+      }
+    })
+    .join('');
+}
+
+/** A section's blocks, led by its heading when the Markdown has none. */
+export function sectionBlocks({ heading, content }: ExportSection) {
+  const blocks = parseMarkdown(content);
+  return blocks[0]?.type === 'heading'
+    ? blocks
+    : [
+        {
+          type: 'heading',
+          level: 1,
+          children: [{ type: 'text', text: heading }],
+        } satisfies Block,
+        ...blocks,
+      ];
+}
@@ -0,0 +1,17 @@
+/** An accepted section as exporters see it. */
+export type ExportSection = { heading: string; content: string };
+
+/** What every export format is built from. */
+export type ExportBook = {
+  /** Title and author of the source book. */
+  title: string;
+  author: string;
+  /** BCP 47 language tag of the source book, if known. */
+  language?: string;
+  sections: Array<ExportSection>;
+};
+
+/** "Distilled from Walden by Henry David Thoreau". */
+export function distilledFrom({ title, author }: ExportBook) {
+  return `Distilled from ${title || 'an untitled book'}${author ? ` by ${author}` : ''}`;
+}
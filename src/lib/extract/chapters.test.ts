@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  chapterMarker,
+  stripChapterMarkers,
+  toChapterRecords,
+} from './chapters';
+
+describe('stripChapterMarkers', () => {
+  test('returns marker offsets in the trimmed text', () => {
+    const raw = `\n  ${chapterMarker(0)}One\n\n${chapterMarker(1)}Two  `;
+    const { text, offsets } = stripChapterMarkers(raw);
+    expect(text).toBe('One\n\nTwo');
+    expect(offsets.get(0)).toBe(0);
+    expect(offsets.get(1)).toBe(text.indexOf('Two'));
+  });
+});
+
+describe('toChapterRecords', () => {
+  test('ends a chapter at the next entry of the same or higher level', () => {
+    const records = toChapterRecords(
+      'b',
+      [
+        { title: 'Part I', level: 1, start: 0 },
+        { title: 'Chapter 1', level: 2, start: 10 },
+        { title: 'Chapter 2', level: 2, start: 50 },
+        { title: 'Part II', level: 1, start: 80 },
+      ],
+      120,
+    );
+    expect(records.map((r) => [r.title, r.start, r.end])).toEqual([
+      ['Part I', 0, 80],
+      ['Chapter 1', 10, 50],
+      ['Chapter 2', 50, 80],
+      ['Part II', 80, 120],
+    ]);
+    expect(records[1].id).toBe('b:1');
+  });
+});
@@ -0,0 +1,73 @@
+import type { ChapterRecord } from '@/lib/db';
+
+/** A table-of-contents entry located in the extracted text. */
+export type ExtractedChapter = {
+  title: string;
+  /** 1 for top-level entries, 2 for their children, ... */
+  level: number;
+  /** Offset into the extracted text where the chapter begins. */
+  start: number;
+};
+
+// Private-use characters never occur in book text, so they can mark chapter
+// starts inside a document while it is flattened to text.
+const MARKER = /\uE000(\d+)\uE001/g;
+
+export const chapterMarker = (index: number) => `\uE000${index}\uE001`;
+
+/**
+ * Removes chapter markers and trims the text, returning where each marker
+ * ended up in the trimmed result.
+ */
+export function stripChapterMarkers(raw: string) {
+  const offsets = new Map<number, number>();
+  let text = '';
+  let last = 0;
+  for (const m of raw.matchAll(MARKER)) {
+    text += raw.slice(last, m.index);
+    offsets.set(Number(m[1]), text.length);
+    last = m.index + m[0].length;
+  }
+  text += raw.slice(last);
+
+  const lead = text.length - text.trimStart().length;
+  const trimmed = text.trim();
+  for (const [i, offset] of offsets) {
+    offsets.set(i, Math.min(Math.max(offset - lead, 0), trimmed.length));
+  }
+  return { text: trimmed, offsets };
+}
+
+/**
+ * Orders chapters by position and gives each an end: the start of the next
+ * entry at the same or a shallower level, else the end of the text.
+ */
+export function toChapterRecords(
+  bookId: string,
+  chapters: Array<ExtractedChapter>,
+  textLength: number,
+): Array<ChapterRecord> {
+  const sorted = chapters
+    .filter((c) => c.title)
+    .map((c) => ({ ...c, start: Math.min(Math.max(c.start, 0), textLength) }))
+    .sort((a, b) => a.start - b.start);
+  return sorted.map((c, index) => {
+    const next = sorted.slice(index + 1).find((n) => n.level <= c.level);
+    return {
+      id: `${bookId}:${index}`,
+      bookId,
+      index,
+      title: c.title,
+      level: c.level,
+      start: c.start,
+      end: next?.start ?? textLength,
+    };
+  });
+}
+
+/** Chapters overlapping the text range [start, end). */
+export const chaptersInRange = <T extends Pick<ChapterRecord, 'start' | 'end'>>(
+  chapters: Array<T>,
+  start: number,
+  end: number,
+) => chapters.filter((c) => c.start < end && c.end > start);
@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, test } from 'vitest';
+
+import { extractTextFromEPUB, resolveZipPath } from './epub';
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const OPF = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Test Book</dc:title>
+    <dc:creator>Jane Doe</dc:creator>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="c1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="c1"/>
+    <itemref idref="c2"/>
+  </spine>
+</package>`;
+
+const NAV = `<html xmlns:epub="http://www.idpf.org/2007/ops"><body>
+  <nav epub:type="toc"><ol>
+    <li><a href="text/ch1.xhtml">Chapter One</a>
+      <ol><li><a href="text/ch1.xhtml#later">A Later Part</a></li></ol>
+    </li>
+    <li><a href="text/ch2.xhtml">Chapter Two</a></li>
+  </ol></nav>
+</body></html>`;
+
+const page = (body: string) => `<html><body>${body}</body></html>`;
+
+async function buildEpub() {
+  const zip = new JSZip();
+  zip.file('META-INF/container.xml', CONTAINER);
+  zip.file('OEBPS/content.opf', OPF);
+  zip.file('OEBPS/nav.xhtml', NAV);
+  zip.file(
+    'OEBPS/text/ch1.xhtml',
+    page('<p>Opening words.</p><h2 id="later">Later</h2><p>More.</p>'),
+  );
+  zip.file('OEBPS/text/ch2.xhtml', page('<p>Second chapter.</p>'));
+  // jsdom's Blob has no arrayBuffer(), so hand over a minimal stand-in
+  const data = await zip.generateAsync({ type: 'arraybuffer' });
+  return { arrayBuffer: () => Promise.resolve(data) } as Blob;
+}
+
+describe('resolveZipPath', () => {
+  test('resolves relative hrefs against the referring file', () => {
+    expect(resolveZipPath('OEBPS/nav.xhtml', 'text/ch1.xhtml')).toBe(
+      'OEBPS/text/ch1.xhtml',
+    );
+    expect(resolveZipPath('OEBPS/toc/nav.xhtml', '../ch%201.xhtml')).toBe(
+      'OEBPS/ch 1.xhtml',
+    );
+  });
+});
+
+describe('extractTextFromEPUB', () => {
+  test('locates navigation entries in the extracted text', async () => {
+    const { text, metadata, chapters } = await extractTextFromEPUB(
+      await buildEpub(),
+    );
+    expect(metadata.title).toBe('Test Book');
+    expect(text.startsWith('Opening words.')).toBe(true);
+    expect(chapters.map((c) => [c.title, c.level])).toEqual([
+      ['Chapter One', 1],
+      ['A Later Part', 2],
+      ['Chapter Two', 1],
+    ]);
+    expect(chapters[0].start).toBe(0);
+    expect(text.slice(chapters[1].start).startsWith('Later')).toBe(true);
+    expect(text.slice(chapters[2].start)).toBe('Second chapter.');
+  });
+});
@@ -0,0 +1,240 @@
+import JSZip from 'jszip';
+
+import {
+  chapterMarker,
+  type ExtractedChapter,
+  stripChapterMarkers,
+} from './chapters';
+import { type ExtractedBook, metadataFromOpf } from './metadata';
+
+const TRAILING_SPACE_BEFORE_NEWLINE = /\s+\n/g;
+const EXTRA_BLANK_LINES = /\n{3,}/g;
+const WHITESPACE = /\s+/;
+const WHITESPACE_RUN = /\s+/g;
+const NCX_MEDIA_TYPE = 'application/x-dtbncx+xml';
+
+type ManifestItem = {
+  /** Full path inside the zip. */
+  path: string;
+  mediaType: string;
+  properties: Array<string>;
+};
+
+/** A navigation entry pointing at a spine document (and maybe an anchor). */
+type TocEntry = {
+  title: string;
+  level: number;
+  path: string;
+  fragment: string;
+};
+
+/** Resolves `href` relative to the directory of the zip path `from`. */
+export function resolveZipPath(from: string, href: string) {
+  const parts = from.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href).split('/')) {
+    if (segment === '..') {
+      parts.pop();
+    } else if (segment && segment !== '.') {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
+
+/** Locates and parses the OPF package document via META-INF/container.xml. */
+async function loadPackage(zip: JSZip) {
+  const containerXml = await zip
+    .file('META-INF/container.xml')
+    ?.async('string');
+  if (!containerXml) {
+    throw new Error('EPUB: container.xml not found');
+  }
+  const cdoc = new DOMParser().parseFromString(containerXml, 'application/xml');
+  const rootfile = cdoc.querySelector('rootfile')?.getAttribute('full-path');
+  if (!rootfile) {
+    throw new Error('EPUB: rootfile not found');
+  }
+
+  const opfText = await zip.file(rootfile)?.async('string');
+  if (!opfText) {
+    throw new Error('EPUB: OPF not found');
+  }
+  const opf = new DOMParser().parseFromString(opfText, 'application/xml');
+  return { opf, rootfile };
+}
+
+function readManifest(opf: Document, rootfile: string) {
+  const manifest = new Map<string, ManifestItem>();
+  for (const it of opf.querySelectorAll('manifest > item')) {
+    manifest.set(it.getAttribute('id') || '', {
+      path: resolveZipPath(rootfile, it.getAttribute('href') || ''),
+      mediaType: it.getAttribute('media-type') || '',
+      properties: (it.getAttribute('properties') || '').split(WHITESPACE),
+    });
+  }
+  return manifest;
+}
+
+/** Zip paths of the spine documents, in reading order. */
+function spinePaths(opf: Document, manifest: Map<string, ManifestItem>) {
+  const paths: Array<string> = [];
+  for (const ir of opf.querySelectorAll('spine > itemref')) {
+    const item = manifest.get(ir.getAttribute('idref') || '');
+    if (item) {
+      paths.push(item.path);
+    }
+  }
+  return paths;
+}
+
+function tocEntry(title: string, level: number, from: string, href: string) {
+  const [file, fragment = ''] = href.split('#');
+  return {
+    title: title.replace(WHITESPACE_RUN, ' ').trim(),
+    level,
+    path: file ? resolveZipPath(from, file) : from,
+    fragment: decodeURIComponent(fragment),
+  };
+}
+
+/** EPUB 3: the `<nav epub:type="toc">` list in the navigation document. */
+function navEntries(doc: Document, navPath: string) {
+  const navs = [...doc.querySelectorAll('nav')];
+  const toc =
+    navs.find((n) =>
+      (n.getAttribute('epub:type') || '').split(WHITESPACE).includes('toc'),
+    ) ?? navs[0];
+  const entries: Array<TocEntry> = [];
+  const walk = (list: Element | null | undefined, level: number) => {
+    for (const li of [...(list?.children ?? [])]) {
+      const a = [...li.children].find((c) => c.localName === 'a');
+      if (a) {
+        entries.push(
+          tocEntry(
+            a.textContent || '',
+            level,
+            navPath,
+            a.getAttribute('href') || '',
+          ),
+        );
+      }
+      walk(
+        [...li.children].find((c) => c.localName === 'ol'),
+        level + 1,
+      );
+    }
+  };
+  walk(
+    [...(toc?.children ?? [])].find((c) => c.localName === 'ol'),
+    1,
+  );
+  return entries;
+}
+
+/** EPUB 2: nested `navPoint`s in the NCX file. */
+function ncxEntries(doc: Document, ncxPath: string) {
+  const entries: Array<TocEntry> = [];
+  const walk = (parent: Element | null, level: number) => {
+    for (const point of [...(parent?.children ?? [])]) {
+      if (point.localName !== 'navPoint') {
+        continue;
+      }
+      const label = point.getElementsByTagName('text')[0]?.textContent || '';
+      const src =
+        point.getElementsByTagName('content')[0]?.getAttribute('src') || '';
+      entries.push(tocEntry(label, level, ncxPath, src));
+      walk(point, level + 1);
+    }
+  };
+  walk(doc.getElementsByTagName('navMap')[0] ?? null, 1);
+  return entries;
+}
+
+async function readToc(
+  zip: JSZip,
+  opf: Document,
+  manifest: Map<string, ManifestItem>,
+): Promise<Array<TocEntry>> {
+  const items = [...manifest.values()];
+  const nav = items.find((it) => it.properties.includes('nav'));
+  if (nav) {
+    const html = await zip.file(nav.path)?.async('string');
+    const entries = html
+      ? navEntries(new DOMParser().parseFromString(html, 'text/html'), nav.path)
+      : [];
+    if (entries.length) {
+      return entries;
+    }
+  }
+  const tocId = opf.querySelector('spine')?.getAttribute('toc') || '';
+  const ncx =
+    manifest.get(tocId) ?? items.find((it) => it.mediaType === NCX_MEDIA_TYPE);
+  const xml = ncx && (await zip.file(ncx.path)?.async('string'));
+  return xml && ncx
+    ? ncxEntries(
+        new DOMParser().parseFromString(xml, 'application/xml'),
+        ncx.path,
+      )
+    : [];
+}
+
+/** Flattens one spine document, returning where each TOC entry landed. */
+function documentText(html: string, path: string, toc: Array<TocEntry>) {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  toc.forEach((entry, i) => {
+    if (entry.path !== path || !doc.body) {
+      return;
+    }
+    const marker = doc.createTextNode(chapterMarker(i));
+    const target = entry.fragment && doc.getElementById(entry.fragment);
+    if (target && target !== doc.body) {
+      target.before(marker);
+    } else {
+      doc.body.prepend(marker);
+    }
+  });
+  return stripChapterMarkers(
+    (doc.body?.textContent || '')
+      .replace(TRAILING_SPACE_BEFORE_NEWLINE, '\n')
+      .replace(EXTRA_BLANK_LINES, '\n\n'),
+  );
+}
+
+export async function extractTextFromEPUB(file: Blob): Promise<ExtractedBook> {
+  const buf = await file.arrayBuffer();
+  const zip = await JSZip.loadAsync(buf);
+  const { opf, rootfile } = await loadPackage(zip);
+  const manifest = readManifest(opf, rootfile);
+  const toc = await readToc(zip, opf, manifest);
+
+  let out = '';
+  const starts = new Map<number, number>();
+  for (const full of spinePaths(opf, manifest)) {
+    const html = await zip.file(full)?.async('string');
+    if (!html) {
+      continue;
+    }
+    const { text, offsets } = documentText(html, full, toc);
+    for (const [i, offset] of offsets) {
+      if (!starts.has(i)) {
+        starts.set(i, out.length + offset);
+      }
+    }
+    out += `${text}\n\n`;
+  }
+
+  const lead = out.length - out.trimStart().length;
+  const chapters: Array<ExtractedChapter> = [];
+  toc.forEach((entry, i) => {
+    const start = starts.get(i);
+    if (start !== undefined) {
+      chapters.push({
+        title: entry.title,
+        level: entry.level,
+        start: Math.max(start - lead, 0),
+      });
+    }
+  });
+
+  return { text: out.trim(), metadata: metadataFromOpf(opf), chapters };
+}
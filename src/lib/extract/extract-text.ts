@@ -0,0 +1,31 @@
+import { extractTextFromEPUB } from './epub';
+import type { ExtractedBook } from './metadata';
+import { extractTextFromPDF } from './pdf';
+import type { PageProgress } from './pdf-layout';
+
+export type { PageProgress };
+
+export const pageProgressLabel = ({ page, pages, ocr }: PageProgress) =>
+  `${ocr ? 'Running OCR on' : 'Reading'} page ${page} of ${pages}`;
+
+/**
+ * Extracts plain text and embedded metadata from an uploaded book, choosing a
+ * parser by extension. `onProgress` reports each PDF page as it is read.
+ */
+export async function extractText(
+  file: Blob,
+  name: string,
+  onProgress?: (progress: PageProgress) => void,
+): Promise<ExtractedBook> {
+  const ext = (name.split('.').pop() || '').toLowerCase();
+  if (ext === 'pdf') {
+    return extractTextFromPDF(file, onProgress);
+  }
+  if (ext === 'epub') {
+    return extractTextFromEPUB(file);
+  }
+  if (['txt', 'md', 'markdown'].includes(ext)) {
+    return { text: await file.text(), metadata: {}, chapters: [] };
+  }
+  throw new Error('Unsupported file type (use PDF/EPUB/TXT/MD)');
+}
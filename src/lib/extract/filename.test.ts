@@ -0,0 +1,19 @@
+import { describe, expect, test } from 'vitest';
+
+import { inferMetadataFromFilename } from './filename';
+
+describe('inferMetadataFromFilename', () => {
+  test('splits "Title by Author"', () => {
+    expect(inferMetadataFromFilename('The_Art_of_War by Sun Tzu.pdf')).toEqual({
+      title: 'The Art of War',
+      author: 'Sun Tzu',
+    });
+  });
+
+  test('uses the whole name as title otherwise', () => {
+    expect(inferMetadataFromFilename('9780143127741.epub')).toEqual({
+      title: '9780143127741',
+      author: '',
+    });
+  });
+});
@@ -0,0 +1,16 @@
+const EXTENSION = /\.[^.]+$/;
+const SEPARATORS = /[_-]+/g;
+const BY = /\s+by\s+/i;
+
+export function inferMetadataFromFilename(name = '') {
+  const base = name.replace(EXTENSION, '').replace(SEPARATORS, ' ').trim();
+  const by = base.split(BY);
+  if (by.length === 2) {
+    return { title: by[0].trim(), author: by[1].trim() };
+  }
+  const parts = base.split(' - ');
+  if (parts.length === 2) {
+    return { title: parts[0].trim(), author: parts[1].trim() };
+  }
+  return { title: base, author: '' };
+}
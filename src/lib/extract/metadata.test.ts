@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { describe, expect, test } from 'vitest';
+
+import {
+  metadataFromOpf,
+  metadataFromPdf,
+  resolveTitleAuthor,
+} from './metadata';
+
+const OPF = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Sapiens</dc:title>
+    <dc:creator>Yuval Noah Harari</dc:creator>
+    <dc:language>en</dc:language>
+    <dc:publisher>Harper</dc:publisher>
+    <dc:date>2015-02-10T00:00:00Z</dc:date>
+  </metadata>
+</package>`;
+
+describe('metadataFromOpf', () => {
+  test('reads the Dublin Core fields', () => {
+    const opf = new DOMParser().parseFromString(OPF, 'application/xml');
+    expect(metadataFromOpf(opf)).toEqual({
+      title: 'Sapiens',
+      author: 'Yuval Noah Harari',
+      language: 'en',
+      publisher: 'Harper',
+      date: '2015-02-10',
+    });
+  });
+});
+
+describe('metadataFromPdf', () => {
+  test('prefers XMP and falls back to the info dictionary', () => {
+    const xmp = new Map<string, unknown>([
+      ['dc:creator', ['Ada Lovelace', 'Charles Babbage']],
+    ]);
+    expect(
+      metadataFromPdf(
+        {
+          Title: '  Notes on the  Engine ',
+          Author: 'ignored',
+          CreationDate: "D:18430901120000+01'00'",
+        },
+        { get: (name) => xmp.get(name) },
+      ),
+    ).toEqual({
+      title: 'Notes on the Engine',
+      author: 'Ada Lovelace, Charles Babbage',
+      language: undefined,
+      publisher: undefined,
+      date: '1843-09-01',
+    });
+  });
+});
+
+describe('resolveTitleAuthor', () => {
+  test('uses the filename only when metadata is missing', () => {
+    expect(resolveTitleAuthor({}, '9780143127741.epub')).toEqual({
+      title: '9780143127741',
+      author: '',
+    });
+    expect(
+      resolveTitleAuthor({ title: 'Sapiens' }, 'sapiens by someone.epub'),
+    ).toEqual({ title: 'Sapiens', author: 'someone' });
+  });
+});
@@ -0,0 +1,97 @@
+import type { ExtractedChapter } from './chapters';
+import { inferMetadataFromFilename } from './filename';
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const PDF_DATE = /^D:(\d{4})(\d{2})?(\d{2})?/;
+const ISO_DATE = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/;
+const WHITESPACE = /\s+/g;
+
+/** Bibliographic fields read from the book file itself. */
+export type BookMetadata = {
+  title?: string;
+  author?: string;
+  language?: string;
+  publisher?: string;
+  /** Publication date, normalised to YYYY, YYYY-MM or YYYY-MM-DD. */
+  date?: string;
+};
+
+export type ExtractedBook = {
+  text: string;
+  metadata: BookMetadata;
+  chapters: Array<ExtractedChapter>;
+};
+
+/** Minimal view of pdfjs' XMP `Metadata` object. */
+type XmpMetadata = { get: (name: string) => unknown };
+
+const clean = (value: unknown) => {
+  const list = Array.isArray(value) ? value : [value];
+  const joined = list
+    .filter((v): v is string => typeof v === 'string')
+    .map((v) => v.replace(WHITESPACE, ' ').trim())
+    .filter(Boolean)
+    .join(', ');
+  return joined || undefined;
+};
+
+function normaliseDate(raw: unknown) {
+  if (typeof raw !== 'string') {
+    return undefined;
+  }
+  const m = raw.trim().match(PDF_DATE) ?? raw.trim().match(ISO_DATE);
+  if (!m) {
+    return undefined;
+  }
+  return [m[1], m[2], m[3]].filter(Boolean).join('-');
+}
+
+/** Dublin Core fields from an EPUB package (OPF) document. */
+export function metadataFromOpf(opf: Document): BookMetadata {
+  const dc = (name: string) =>
+    [...opf.getElementsByTagNameNS(DC_NS, name)].map((el) => el.textContent);
+  return {
+    title: clean(dc('title')[0]),
+    author: clean(dc('creator')),
+    language: clean(dc('language')[0]),
+    publisher: clean(dc('publisher')[0]),
+    date: normaliseDate(dc('date')[0]),
+  };
+}
+
+/**
+ * Merges the XMP packet (preferred, it handles Unicode properly) with the
+ * older PDF document information dictionary.
+ */
+export function metadataFromPdf(
+  info: Record<string, unknown>,
+  xmp?: XmpMetadata | null,
+): BookMetadata {
+  const fromXmp = (name: string) => clean(xmp?.get(name));
+  return {
+    title: fromXmp('dc:title') ?? clean(info.Title),
+    author: fromXmp('dc:creator') ?? clean(info.Author),
+    language: fromXmp('dc:language') ?? clean(info.Language),
+    publisher: fromXmp('dc:publisher'),
+    date:
+      normaliseDate(xmp?.get('dc:date')) ??
+      normaliseDate(xmp?.get('xmp:createdate')) ??
+      normaliseDate(info.CreationDate),
+  };
+}
+
+/** Title and author from the file's metadata, else guessed from its name. */
+export function resolveTitleAuthor(metadata: BookMetadata, filename: string) {
+  const guess = inferMetadataFromFilename(filename);
+  return {
+    title: metadata.title || guess.title,
+    author: metadata.author || guess.author,
+  };
+}
+
+/** The metadata fields stored on a book record besides title and author. */
+export const publicationFields = (metadata: BookMetadata) => ({
+  language: metadata.language,
+  publisher: metadata.publisher,
+  publishedDate: metadata.date,
+});
@@ -0,0 +1,43 @@
+import { createRequire } from 'node:module';
+import { dirname } from 'node:path';
+import { expect, test } from 'vitest';
+
+import { startOcrWorker } from './ocr';
+
+/** 5×7 glyphs, enough to spell a test word. */
+const GLYPHS: Record<string, Array<string>> = {
+  H: ['10001', '10001', '10001', '11111', '10001', '10001', '10001'],
+  E: ['11111', '10000', '10000', '11110', '10000', '10000', '11111'],
+  L: ['10000', '10000', '10000', '10000', '10000', '10000', '11111'],
+  O: ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+};
+
+/** `text` in block capitals as a plain PBM image, which Tesseract reads. */
+function textImage(text: string, scale = 8) {
+  const margin = 2;
+  const width = (text.length * 6 + margin * 2) * scale;
+  const height = (7 + margin * 2) * scale;
+  const ink = (x: number, y: number) => {
+    const col = Math.floor(x / scale) - margin;
+    const row = Math.floor(y / scale) - margin;
+    const glyph = GLYPHS[text[Math.floor(col / 6)]];
+    return col >= 0 && glyph?.[row]?.[col % 6] === '1' ? 1 : 0;
+  };
+  const rows = Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => ink(x, y)).join(' '),
+  );
+  return Buffer.from(`P1\n${width} ${height}\n${rows.join('\n')}\n`);
+}
+
+test('the worker starts with the bundled English data and reads text', async () => {
+  const data = createRequire(import.meta.url).resolve(
+    '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+  );
+  const worker = await startOcrWorker(dirname(data));
+  try {
+    const result = await worker.recognize(textImage('HELLO HELLO'));
+    expect(result.data.text.trim()).toBe('HELLO HELLO');
+  } finally {
+    await worker.terminate();
+  }
+}, 60_000);
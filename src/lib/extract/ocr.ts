@@ -0,0 +1,92 @@
+import engData from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import {
+  createWorker,
+  OEM,
+  type Worker,
+  type WorkerOptions,
+} from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+
+import { placedOcrLines } from './pdf-layout';
+
+/** Pixels per PDF unit when rendering a page for OCR (~144 dpi). */
+const OCR_SCALE = 2;
+
+const FILE_NAME = /\/[^/]*$/;
+
+// The worker runs from a blob URL, so its script paths must be absolute
+const absolute = (path: string) => new URL(path, window.location.href).href;
+
+/**
+ * A Tesseract worker for English that reads `eng.traineddata.gz` from
+ * `langPath`: a URL in the browser, a folder in Node.
+ */
+export function startOcrWorker(
+  langPath: string,
+  options: Partial<WorkerOptions> = {},
+) {
+  return createWorker('eng', OEM.LSTM_ONLY, {
+    langPath,
+    gzip: true,
+    cacheMethod: 'none',
+    ...options,
+  });
+}
+
+function startWorker() {
+  // The build keeps the data file's name, so its folder serves as langPath
+  return startOcrWorker(absolute(engData).replace(FILE_NAME, ''), {
+    workerPath: absolute(workerPath),
+    corePath: absolute(corePath),
+  });
+}
+
+async function renderPage(page: PDFPageProxy) {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const canvasContext = canvas.getContext('2d');
+  if (!canvasContext) {
+    throw new Error('Canvas 2D context is not available for OCR');
+  }
+  await page.render({ canvas, canvasContext, viewport }).promise;
+  return canvas;
+}
+
+/**
+ * An OCR session for the pages of one document. The engine, its WASM core and
+ * the English language data are bundled with the app and loaded on the first
+ * page that needs them; `close` frees the worker.
+ */
+export function createPageRecognizer() {
+  let worker: Promise<Worker> | null = null;
+  return {
+    async recognize(page: PDFPageProxy) {
+      worker ??= startWorker();
+      const canvas = await renderPage(page);
+      const { data } = await (await worker).recognize(
+        canvas,
+        {},
+        { blocks: true },
+      );
+      const lines = (data.blocks ?? []).flatMap((block) =>
+        block.paragraphs.flatMap((paragraph) => paragraph.lines),
+      );
+      canvas.width = 0;
+      canvas.height = 0;
+      const { height } = page.getViewport({ scale: 1 });
+      return placedOcrLines(lines, OCR_SCALE, height);
+    },
+    async close() {
+      if (worker) {
+        await (await worker).terminate();
+        worker = null;
+      }
+    },
+  };
+}
+
+export type PageRecognizer = ReturnType<typeof createPageRecognizer>;
@@ -0,0 +1,161 @@
+import { readFile } from 'node:fs/promises';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { describe, expect, test } from 'vitest';
+
+import {
+  dropRunningLines,
+  hasTextLayer,
+  joinLines,
+  type PageProgress,
+  type PageTextOptions,
+  pdfPageTexts,
+  placedOcrLines,
+  type TextLine,
+} from './pdf-layout';
+
+const RUNNING_LINE = /Chapter One|The Test Book|Page \d/;
+
+async function fixturePages(name: string, options?: PageTextOptions) {
+  const data = await readFile(
+    new URL(`./__fixtures__/${name}`, import.meta.url),
+  );
+  const pdf = await getDocument({ data: new Uint8Array(data), verbosity: 0 })
+    .promise;
+  try {
+    return await pdfPageTexts(pdf, options);
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+const line = (text: string, y: number): TextLine => ({
+  text,
+  x: 72,
+  y,
+  size: 11,
+});
+
+describe('joinLines', () => {
+  test('rejoins a word hyphenated at the line break', () => {
+    expect(joinLines('careful distil-', 'lation of ideas')).toBe(
+      'careful distillation of ideas',
+    );
+  });
+
+  test('keeps the hyphen before a capitalised continuation', () => {
+    expect(joinLines('Jean-', 'Paul')).toBe('Jean-Paul');
+  });
+});
+
+describe('dropRunningLines', () => {
+  test('keeps edge lines that do not repeat on enough pages', () => {
+    const pages = [
+      [line('Intro', 750), line('Body one', 700)],
+      [line('Intro', 750), line('Body two', 700)],
+    ];
+    expect(dropRunningLines(pages)).toEqual(pages);
+  });
+
+  test('drops bare page numbers even on a single page', () => {
+    const pages = [[line('Body', 700), line('- 12 -', 40)]];
+    expect(dropRunningLines(pages)).toEqual([[line('Body', 700)]]);
+  });
+
+  test('drops roman page numbers but keeps words spelled with their letters', () => {
+    const page = (last: string) => [line('Body', 700), line(last, 40)];
+    expect(dropRunningLines([page('xiv')])).toEqual([[line('Body', 700)]]);
+    for (const word of ['mild', 'dim', 'civil']) {
+      expect(dropRunningLines([page(word)])).toEqual([page(word)]);
+    }
+  });
+});
+
+describe('OCR fallback', () => {
+  test('treats a page with a few stray characters as having no text layer', () => {
+    const item = { x: 72, y: 700, size: 11, width: 20 };
+    expect(hasTextLayer([{ ...item, str: ' 12 ' }])).toBe(false);
+    expect(hasTextLayer([{ ...item, str: 'A sentence of real text.' }])).toBe(
+      true,
+    );
+  });
+
+  test('places OCR lines in PDF units from the bottom of the page', () => {
+    const ocrLine = (text: string, top: number, rowHeight: number) => ({
+      text,
+      bbox: { x0: 144, y0: top, x1: 400, y1: top + 24 },
+      baseline: { y0: top + 20, y1: top + 20 },
+      rowAttributes: { rowHeight },
+    });
+    const placed = placedOcrLines(
+      [
+        ocrLine('First line\n', 100, 30),
+        ocrLine(' ', 130, 30),
+        ocrLine('Second', 128, 34),
+      ],
+      2,
+      792,
+    );
+    expect(placed).toEqual([
+      { str: 'First line', x: 72, y: 732, size: 17, width: 128 },
+      { str: 'Second', x: 72, y: 718, size: 17, width: 128 },
+    ]);
+  });
+});
+
+describe('pdfPageTexts fixtures', () => {
+  test('running-headers.pdf: drops alternating headers and page footers', async () => {
+    const pages = await fixturePages('running-headers.pdf');
+    expect(pages).toHaveLength(6);
+    expect(pages[0]).toBe(
+      'The first page opens with a paragraph that runs over several lines of text so that the extractor has to join them back into one flowing paragraph without losing any of the words.\n\nA second paragraph starts with an indent and talks about distillation, a word that was broken across two lines on purpose.',
+    );
+    expect(pages[1]).toContain(
+      'Names such as Jean-Paul keep their hyphen when the next line starts with a capital.',
+    );
+    expect(pages[4]).toBe(
+      'The fifth page mentions page 5 of the book in passing.',
+    );
+    for (const page of pages) {
+      expect(page).not.toMatch(RUNNING_LINE);
+    }
+  });
+
+  test('single-page.pdf: splits block paragraphs and drops the page number', async () => {
+    const [page] = await fixturePages('single-page.pdf');
+    expect(page).toBe(
+      'A Plain Title\n\nBlock paragraphs have no indent. The space between them is what tells them apart.\n\nThis is the second block paragraph, which also wraps across two lines.',
+    );
+  });
+
+  test('no-text-layer.pdf: recognizes only the page without text', async () => {
+    const progress: Array<PageProgress> = [];
+    const pages = await fixturePages('no-text-layer.pdf', {
+      recognize: (page) =>
+        Promise.resolve([
+          {
+            str: `Recognized page ${page.pageNumber}`,
+            x: 72,
+            y: 700,
+            size: 11,
+            width: 120,
+          },
+        ]),
+      onProgress: (p) => progress.push(p),
+    });
+    expect(pages).toEqual([
+      'The first page has a real text layer with enough characters.',
+      'Recognized page 2',
+    ]);
+    expect(progress).toEqual([
+      { page: 1, pages: 2, ocr: false },
+      { page: 2, pages: 2, ocr: true },
+    ]);
+  });
+
+  test('split-words.pdf: orders lines top to bottom', async () => {
+    const [page] = await fixturePages('split-words.pdf');
+    expect(page).toBe(
+      'This sentence is drawn one word at a time and is finished on the second line.',
+    );
+  });
+});
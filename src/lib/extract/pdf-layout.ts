@@ -0,0 +1,279 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextContent } from 'pdfjs-dist/types/src/display/api';
+
+const WHITESPACE = /\s+/g;
+const DIGITS = /\d+/g;
+const HYPHEN_BREAK = /\p{L}[-\u00AD\u2010]$/u;
+const LOWERCASE_START = /^\p{Ll}/u;
+// Roman numerals are written out digit by digit, so words like "mild" or
+// "civil" made of the same letters are not taken for one
+const PAGE_NUMBER =
+  /^[-–—([\s]*(?:[Pp]age\s+)?(?:\d+|(?=[ivxlcdm])m{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3}))(?:\s+of\s+\d+)?[-–—)\]\s]*$/;
+
+/** Lines at the top and bottom of a page that may be running heads. */
+const EDGE_LINES = 2;
+/** Pages a line must repeat on, at the same edge, to count as running. */
+const MIN_REPEATS = 3;
+/** Fewer visible characters than this means the page has no text layer. */
+const MIN_TEXT_LAYER_CHARS = 16;
+
+/** A run of text placed on the page, in PDF user-space units. */
+export type PlacedText = {
+  str: string;
+  x: number;
+  y: number;
+  size: number;
+  width: number;
+};
+
+/** One visual line of text, left to right. */
+export type TextLine = { text: string; x: number; y: number; size: number };
+
+/** A line found by OCR, in pixels of the rendered page image. */
+export type OcrLine = {
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+  baseline: { y0: number; y1: number };
+  rowAttributes: { rowHeight: number };
+};
+
+export type PageProgress = { page: number; pages: number; ocr: boolean };
+
+export type PageTextOptions = {
+  /** Reads a page that has no text layer, e.g. a scan, by other means. */
+  recognize?: (page: PDFPageProxy) => Promise<Array<PlacedText>>;
+  onProgress?: (progress: PageProgress) => void;
+};
+
+/** Text items from pdf.js with their position and font size. */
+export function placedItems(items: TextContent['items']) {
+  const placed: Array<PlacedText> = [];
+  for (const item of items) {
+    if (!('str' in item && item.str.trim())) {
+      continue;
+    }
+    const [, , c, d, x, y] = item.transform as Array<number>;
+    placed.push({
+      str: item.str,
+      x,
+      y,
+      size: Math.hypot(c, d) || item.height,
+      width: item.width,
+    });
+  }
+  return placed;
+}
+
+/** Whether a page carries enough embedded text to skip OCR. */
+export function hasTextLayer(items: Array<PlacedText>) {
+  let chars = 0;
+  for (const item of items) {
+    chars += item.str.replace(WHITESPACE, '').length;
+  }
+  return chars >= MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Converts OCR lines to placed text on a page `pageHeight` units tall that was
+ * rendered at `scale` pixels per unit. Every line gets the page's median row
+ * height as its size, since OCR row heights vary with ascenders and descenders.
+ */
+export function placedOcrLines(
+  lines: Array<OcrLine>,
+  scale: number,
+  pageHeight: number,
+) {
+  const texts = lines.filter((line) => line.text.trim());
+  const heights = texts
+    .map((line) => line.rowAttributes.rowHeight)
+    .sort((a, b) => a - b);
+  const size = (heights[Math.floor(heights.length / 2)] ?? 0) / scale;
+  return texts.map(
+    (line): PlacedText => ({
+      str: line.text.trim(),
+      x: line.bbox.x0 / scale,
+      y: pageHeight - (line.baseline.y0 + line.baseline.y1) / 2 / scale,
+      size,
+      width: (line.bbox.x1 - line.bbox.x0) / scale,
+    }),
+  );
+}
+
+const joinLineItems = (items: Array<PlacedText>): TextLine => {
+  const sorted = [...items].sort((a, b) => a.x - b.x);
+  let text = '';
+  let right = sorted[0].x;
+  for (const item of sorted) {
+    const gap = item.x - right;
+    if (text && gap > item.size * 0.15) {
+      text += ' ';
+    }
+    text += item.str;
+    right = Math.max(right, item.x + item.width);
+  }
+  return {
+    text: text.replace(WHITESPACE, ' ').trim(),
+    x: sorted[0].x,
+    y: sorted[0].y,
+    size: Math.max(...sorted.map((it) => it.size)),
+  };
+};
+
+/**
+ * Groups items that share a baseline into lines, ordered top to bottom. Items
+ * within half a font size of each other vertically belong to the same line.
+ */
+export function groupLines(items: Array<PlacedText>) {
+  const rows: Array<Array<PlacedText>> = [];
+  for (const item of [...items].sort((a, b) => b.y - a.y)) {
+    const row = rows.at(-1);
+    if (row && Math.abs(row[0].y - item.y) <= item.size / 2) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+  return rows.map(joinLineItems).filter((line) => line.text);
+}
+
+const normalizeLine = (text: string) => text.toLowerCase().replace(DIGITS, '#');
+
+const edgeKeys = (lines: Array<TextLine>) => {
+  const keys = new Map<TextLine, string>();
+  lines.slice(0, EDGE_LINES).forEach((line) => {
+    keys.set(line, `top:${normalizeLine(line.text)}`);
+  });
+  lines.slice(-EDGE_LINES).forEach((line) => {
+    keys.set(line, `bottom:${normalizeLine(line.text)}`);
+  });
+  return keys;
+};
+
+/**
+ * Drops running headers and footers: lines near the top or bottom edge whose
+ * text (with numbers ignored) repeats at that edge on several pages, and bare
+ * page numbers on the first or last line of a page.
+ */
+export function dropRunningLines(pages: Array<Array<TextLine>>) {
+  const keysByPage = pages.map(edgeKeys);
+  const counts = new Map<string, number>();
+  for (const keys of keysByPage) {
+    for (const key of new Set(keys.values())) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return pages.map((lines, i) =>
+    lines.filter((line, j) => {
+      const key = keysByPage[i].get(line);
+      if (key === undefined) {
+        return true;
+      }
+      const outermost = j === 0 || j === lines.length - 1;
+      if (outermost && PAGE_NUMBER.test(line.text)) {
+        return false;
+      }
+      return (counts.get(key) ?? 0) < MIN_REPEATS;
+    }),
+  );
+}
+
+/** The most common distance between baselines, preferring the smaller. */
+const lineSpacing = (lines: Array<TextLine>) => {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < lines.length; i++) {
+    const gap = Math.round(lines[i - 1].y - lines[i].y);
+    counts.set(gap, (counts.get(gap) ?? 0) + 1);
+  }
+  let spacing = 0;
+  let best = 0;
+  for (const [gap, count] of [...counts].sort((a, b) => a[0] - b[0])) {
+    if (count > best) {
+      spacing = gap;
+      best = count;
+    }
+  }
+  return spacing;
+};
+
+/**
+ * Appends a line to a paragraph. A word hyphenated at the break is rejoined;
+ * the hyphen is kept when the next line starts with a capital (`Jean-Paul`).
+ */
+export function joinLines(paragraph: string, line: string) {
+  if (!HYPHEN_BREAK.test(paragraph)) {
+    return `${paragraph} ${line}`;
+  }
+  return LOWERCASE_START.test(line)
+    ? paragraph.slice(0, -1) + line
+    : paragraph + line;
+}
+
+const startsParagraph = (
+  prev: TextLine,
+  line: TextLine,
+  spacing: number,
+  left: number,
+) => {
+  const gap = prev.y - line.y;
+  const indented = line.x - left > line.size * 0.8;
+  return (
+    gap > spacing * 1.3 + 0.5 ||
+    Math.abs(line.size - prev.size) > 1 ||
+    (indented && Math.abs(line.x - prev.x) > line.size / 2)
+  );
+};
+
+/**
+ * Joins lines into paragraphs. A paragraph starts after a larger than usual
+ * vertical gap, at a change of font size, or at an indented first line.
+ */
+export function linesToParagraphs(lines: Array<TextLine>) {
+  if (!lines.length) {
+    return [];
+  }
+  const spacing = lineSpacing(lines);
+  const left = Math.min(...lines.map((line) => line.x));
+  const paragraphs = [lines[0].text];
+  for (let i = 1; i < lines.length; i++) {
+    if (startsParagraph(lines[i - 1], lines[i], spacing, left)) {
+      paragraphs.push(lines[i].text);
+    } else {
+      paragraphs[paragraphs.length - 1] = joinLines(
+        paragraphs[paragraphs.length - 1],
+        lines[i].text,
+      );
+    }
+  }
+  return paragraphs;
+}
+
+/** Page texts with paragraphs separated by blank lines. */
+export function layoutPages(pages: Array<Array<PlacedText>>) {
+  return dropRunningLines(pages.map(groupLines)).map((lines) =>
+    linesToParagraphs(lines).join('\n\n'),
+  );
+}
+
+/**
+ * Reads every page of a document and lays out its text. Pages without a text
+ * layer go through `recognize` when one is given.
+ */
+export async function pdfPageTexts(
+  pdf: PDFDocumentProxy,
+  { recognize, onProgress }: PageTextOptions = {},
+) {
+  const pages: Array<Array<PlacedText>> = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    let items = placedItems(content.items);
+    const ocr = !!recognize && !hasTextLayer(items);
+    onProgress?.({ page: i, pages: pdf.numPages, ocr });
+    if (ocr) {
+      items = await recognize(page);
+    }
+    pages.push(items);
+    page.cleanup();
+  }
+  return layoutPages(pages);
+}
@@ -0,0 +1,117 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import * as pdfjsLib from 'pdfjs-dist';
+// @ts-ignore - Vite will provide a Worker constructor
+import PdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?worker';
+
+import type { ExtractedChapter } from './chapters';
+import { type ExtractedBook, metadataFromPdf } from './metadata';
+import type { PageRecognizer } from './ocr';
+import { type PageProgress, pdfPageTexts } from './pdf-layout';
+
+// @ts-ignore
+pdfjsLib.GlobalWorkerOptions.workerPort = new PdfWorker();
+
+type OutlineItem = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+/** 0-based page index an outline destination points to, if resolvable. */
+async function destinationPage(
+  pdf: PDFDocumentProxy,
+  dest: OutlineItem['dest'],
+) {
+  const explicit =
+    typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+  const ref = explicit?.[0];
+  if (ref === undefined || ref === null) {
+    return null;
+  }
+  if (typeof ref === 'number') {
+    return ref;
+  }
+  return pdf.getPageIndex(ref).catch(() => null);
+}
+
+/** Bookmarks from the PDF outline, positioned at the start of their page. */
+async function outlineChapters(
+  pdf: PDFDocumentProxy,
+  pageStarts: Array<number>,
+) {
+  const outline = await pdf.getOutline().catch(() => null);
+  const chapters: Array<ExtractedChapter> = [];
+  const walk = async (items: Array<OutlineItem>, level: number) => {
+    for (const item of items) {
+      const page = await destinationPage(pdf, item.dest);
+      if (page !== null && pageStarts[page] !== undefined) {
+        chapters.push({
+          title: item.title.trim(),
+          level,
+          start: pageStarts[page],
+        });
+      }
+      await walk(item.items ?? [], level + 1);
+    }
+  };
+  await walk(outline ?? [], 1);
+  return chapters;
+}
+
+/**
+ * OCR for the pages of one document. The OCR module, and with it the engine,
+ * is only imported when the first page without a text layer turns up.
+ */
+function lazyRecognizer() {
+  let ocr: Promise<PageRecognizer> | null = null;
+  return {
+    async recognize(page: PDFPageProxy) {
+      ocr ??= import('./ocr').then((m) => m.createPageRecognizer());
+      return (await ocr).recognize(page);
+    },
+    async close() {
+      if (ocr) {
+        await (await ocr).close();
+      }
+    },
+  };
+}
+
+/**
+ * Extracts the text layer of each page, falling back to OCR for pages that
+ * have none (scans).
+ */
+export async function extractTextFromPDF(
+  file: Blob,
+  onProgress?: (progress: PageProgress) => void,
+): Promise<ExtractedBook> {
+  const data = await file.arrayBuffer();
+  const pdf: PDFDocumentProxy = await pdfjsLib.getDocument({ data }).promise;
+  const ocr = lazyRecognizer();
+  let pageTexts: Array<string>;
+  try {
+    pageTexts = await pdfPageTexts(pdf, {
+      recognize: ocr.recognize,
+      onProgress,
+    });
+  } finally {
+    await ocr.close();
+  }
+  let text = '';
+  const pageStarts: Array<number> = [];
+  for (const pageText of pageTexts) {
+    pageStarts.push(text.length);
+    if (pageText) {
+      text += `${pageText}\n\n`;
+    }
+  }
+  const lead = text.length - text.trimStart().length;
+  const { info, metadata } = await pdf
+    .getMetadata()
+    .catch(() => ({ info: {}, metadata: null }));
+  const chapters = await outlineChapters(
+    pdf,
+    pageStarts.map((start) => Math.max(start - lead, 0)),
+  );
+  return {
+    text: text.trim(),
+    metadata: metadataFromPdf(info as Record<string, unknown>, metadata),
+    chapters,
+  };
+}
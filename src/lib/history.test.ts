@@ -0,0 +1,218 @@
+import 'fake-indexeddb/auto';
+
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { db, type SectionRecord } from '@/lib/db';
+import { createRunner, dexieRunnerStore } from '@/lib/distill/runner';
+import type { LLMProvider } from '@/lib/llm/types';
+
+import {
+  combineChanges,
+  commitSections,
+  historyStatus,
+  redo,
+  undo,
+} from './history';
+
+const section = (content: string): SectionRecord => ({
+  id: 's1',
+  bookId: 'b',
+  runId: 'r',
+  content,
+  heading: content,
+  status: 'draft',
+  order: 1,
+});
+
+describe('combineChanges', () => {
+  test('keeps the first before and the last after of each section', () => {
+    const typed = combineChanges(
+      [{ id: 's1', before: section('a'), after: section('ab') }],
+      [{ id: 's1', before: section('ab'), after: section('abc') }],
+    );
+    expect(typed).toEqual([
+      { id: 's1', before: section('a'), after: section('abc') },
+    ]);
+  });
+
+  test('adds sections the later change touches for the first time', () => {
+    const other = { ...section('x'), id: 's2' };
+    const added = combineChanges(
+      [{ id: 's1', before: null, after: section('new') }],
+      [
+        { id: 's1', before: section('new'), after: null },
+        { id: 's2', before: other, after: null },
+      ],
+    );
+    expect(added).toEqual([
+      { id: 's1', before: null, after: null },
+      { id: 's2', before: other, after: null },
+    ]);
+  });
+});
+
+describe('commitSections', () => {
+  const run = { bookId: 'b', runId: 'r' };
+  const contents = async () =>
+    (await db.sections.where({ runId: 'r' }).sortBy('order')).map(
+      (s) => s.content,
+    );
+  let now = 0;
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((t) => t.clear()));
+    now = 10_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('saves the changes as a step that undo and redo walk through', async () => {
+    await commitSections(run, 'Generate', [
+      { id: 's1', before: null, after: section('a') },
+    ]);
+    await commitSections(run, 'Edit', [
+      { id: 's1', before: section('a'), after: section('b') },
+    ]);
+    expect(await contents()).toEqual(['b']);
+    expect(await historyStatus('r')).toEqual({ undo: 'Edit', redo: null });
+
+    expect(await undo('r')).toBe('Edit');
+    expect(await contents()).toEqual(['a']);
+    expect(await undo('r')).toBe('Generate');
+    expect(await contents()).toEqual([]);
+    expect(await undo('r')).toBeNull();
+    expect(await historyStatus('r')).toEqual({ undo: null, redo: 'Generate' });
+
+    expect(await redo('r')).toBe('Generate');
+    expect(await redo('r')).toBe('Edit');
+    expect(await contents()).toEqual(['b']);
+    expect(await redo('r')).toBeNull();
+  });
+
+  test('folds quick steps with the same key into one', async () => {
+    const type = (from: string, to: string) =>
+      commitSections(
+        run,
+        'Edit',
+        [{ id: 's1', before: section(from), after: section(to) }],
+        's1:edit',
+      );
+    await db.sections.put(section('a'));
+    await type('a', 'ab');
+    now += 1000;
+    await type('ab', 'abc');
+    now += 5000;
+    await type('abc', 'abcd');
+    expect(await db.history.count()).toBe(2);
+
+    await undo('r');
+    expect(await contents()).toEqual(['abc']);
+    await undo('r');
+    expect(await contents()).toEqual(['a']);
+  });
+
+  test('drops undone steps when a new change is made', async () => {
+    await commitSections(run, 'Generate', [
+      { id: 's1', before: null, after: section('a') },
+    ]);
+    await commitSections(run, 'Edit', [
+      { id: 's1', before: section('a'), after: section('b') },
+    ]);
+    await undo('r');
+    await commitSections(run, 'Accept', [
+      {
+        id: 's1',
+        before: section('a'),
+        after: { ...section('a'), status: 'accepted' },
+      },
+    ]);
+    expect(await historyStatus('r')).toEqual({ undo: 'Accept', redo: null });
+    expect(await redo('r')).toBeNull();
+    expect(await db.history.count()).toBe(2);
+  });
+
+  test('brings back every section when a cleared run is undone', async () => {
+    const sections = [section('a'), { ...section('b'), id: 's2', order: 2 }];
+    await commitSections(
+      run,
+      'Generate',
+      sections.map((s) => ({ id: s.id, before: null, after: s })),
+    );
+    await commitSections(
+      run,
+      'Clear run',
+      sections.map((s) => ({ id: s.id, before: s, after: null })),
+    );
+    expect(await contents()).toEqual([]);
+
+    expect(await undo('r')).toBe('Clear run');
+    expect(await db.sections.where({ runId: 'r' }).sortBy('order')).toEqual(
+      sections,
+    );
+  });
+
+  test('undoes a regeneration and redoes it with its candidates', async () => {
+    const first = section('a');
+    const regenerated: SectionRecord = {
+      ...section('a2'),
+      candidates: [
+        { content: 'a', createdAt: 1 },
+        { content: 'a2', createdAt: 2 },
+      ],
+      activeCandidate: 1,
+    };
+    await commitSections(run, 'Generate', [
+      { id: 's1', before: null, after: first },
+    ]);
+    await commitSections(run, 'Regenerate', [
+      { id: 's1', before: first, after: regenerated },
+    ]);
+    await undo('r');
+    expect(await contents()).toEqual(['a']);
+    await redo('r');
+    expect(await db.sections.get('s1')).toEqual(regenerated);
+  });
+});
+
+describe('runner sections', () => {
+  const provider: LLMProvider = {
+    id: 'fake',
+    label: 'Fake',
+    defaultModel: 'm',
+    fields: [],
+    generate: () => Promise.resolve('# Part'),
+  };
+
+  beforeEach(() => Promise.all(db.tables.map((t) => t.clear())));
+
+  test('undoes auto-accepted sections one at a time', async () => {
+    const run = { bookId: 'b', runId: 'r' };
+    const runner = createRunner(run, dexieRunnerStore, () => ({
+      config: { auto: true, stopToken: '', maxSections: 3, chunkRefs: false },
+      provider,
+      prepare: () =>
+        Promise.resolve({ model: 'm', system: '', user: '', settings: {} }),
+    }));
+    const statuses = async () =>
+      (await db.sections.where({ runId: 'r' }).sortBy('order')).map(
+        (s) => s.status,
+      );
+
+    await runner.next();
+    const [first] = await db.sections.toArray();
+    await commitSections(run, 'Accept', [
+      { id: first.id, before: first, after: { ...first, status: 'accepted' } },
+    ]);
+    await runner.reviewed();
+    expect(await statuses()).toEqual(['accepted', 'accepted', 'accepted']);
+
+    expect(await undo('r')).toBe('Generate and accept');
+    expect(await statuses()).toEqual(['accepted', 'accepted']);
+    expect(await undo('r')).toBe('Generate and accept');
+    expect(await undo('r')).toBe('Accept');
+    expect(await statuses()).toEqual(['draft']);
+  });
+});
@@ -0,0 +1,132 @@
+import { db, type HistoryRecord, type SectionChange } from '@/lib/db';
+
+/** Steps kept per run; the oldest are dropped beyond this. */
+const HISTORY_LIMIT = 200;
+/** Steps with the same coalesce key closer together than this become one. */
+const COALESCE_MS = 1500;
+
+/** Labels of the steps undo and redo would apply next. */
+export type HistoryStatus = { undo: string | null; redo: string | null };
+
+type RunRef = { bookId: string; runId: string };
+
+function steps(runId: string) {
+  return db.history.where({ runId }).sortBy('seq');
+}
+
+/** Writes one side of a step to the sections table. */
+async function apply(changes: Array<SectionChange>, side: 'before' | 'after') {
+  const records = changes.flatMap((c) => {
+    const record = c[side];
+    return record ? [record] : [];
+  });
+  await db.sections.bulkDelete(
+    changes.filter((c) => !c[side]).map((c) => c.id),
+  );
+  await db.sections.bulkPut(records);
+}
+
+/** Folds `later` into `earlier`: each section's first before, last after. */
+export function combineChanges(
+  earlier: Array<SectionChange>,
+  later: Array<SectionChange>,
+) {
+  const out = [...earlier];
+  for (const change of later) {
+    const i = out.findIndex((c) => c.id === change.id);
+    if (i === -1) {
+      out.push(change);
+    } else {
+      out[i] = { ...out[i], after: change.after };
+    }
+  }
+  return out;
+}
+
+const seqs = (list: Array<HistoryRecord>) =>
+  list.map((s) => s.seq).filter((seq) => seq !== undefined);
+
+/**
+ * Saves section changes and records them as one undoable step, dropping any
+ * steps that were undone. With `coalesce`, a step made soon after one with the
+ * same key is folded into it, so a burst of typing undoes at once.
+ */
+export async function commitSections(
+  { bookId, runId }: RunRef,
+  label: string,
+  changes: Array<SectionChange>,
+  coalesce?: string,
+) {
+  if (!changes.length) {
+    return;
+  }
+  await db.transaction('rw', db.sections, db.history, async () => {
+    await apply(changes, 'after');
+    const all = await steps(runId);
+    const undone = all.filter((s) => s.undone);
+    const done = all.filter((s) => !s.undone);
+    await db.history.bulkDelete(seqs(undone));
+    const top = done.at(-1);
+    const now = Date.now();
+    if (
+      coalesce &&
+      top?.seq !== undefined &&
+      top.coalesce === coalesce &&
+      !undone.length &&
+      now - top.updatedAt < COALESCE_MS
+    ) {
+      await db.history.update(top.seq, {
+        changes: combineChanges(top.changes, changes),
+        updatedAt: now,
+      });
+      return;
+    }
+    await db.history.add({
+      bookId,
+      runId,
+      label,
+      changes,
+      undone: false,
+      coalesce,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.history.bulkDelete(
+      seqs(done.slice(0, Math.max(0, done.length + 1 - HISTORY_LIMIT))),
+    );
+  });
+}
+
+/** Reverts the latest step of the run; returns its label, or null. */
+export function undo(runId: string) {
+  return db.transaction('rw', db.sections, db.history, async () => {
+    const step = (await steps(runId)).filter((s) => !s.undone).at(-1);
+    if (step?.seq === undefined) {
+      return null;
+    }
+    await apply(step.changes, 'before');
+    await db.history.update(step.seq, { undone: true });
+    return step.label;
+  });
+}
+
+/** Re-applies the earliest undone step of the run; returns its label, or null. */
+export function redo(runId: string) {
+  return db.transaction('rw', db.sections, db.history, async () => {
+    const step = (await steps(runId)).find((s) => s.undone);
+    if (step?.seq === undefined) {
+      return null;
+    }
+    await apply(step.changes, 'after');
+    await db.history.update(step.seq, { undone: false });
+    return step.label;
+  });
+}
+
+export async function historyStatus(runId: string): Promise<HistoryStatus> {
+  const all = await steps(runId);
+  return {
+    undo: all.filter((s) => !s.undone).at(-1)?.label ?? null,
+    redo: all.find((s) => s.undone)?.label ?? null,
+  };
+}
@@ -1,3 +1,5 @@
+import { Link } from '@tanstack/react-router';
+
 import { ThemeToggle } from '@/lib/components/theme-toggle';
 
 export const Header = () => {
@@ -5,6 +7,20 @@ export const Header = () => {
     <header className="bg-base-100/80 sticky top-0 z-10 w-full backdrop-blur-md">
       <section className="wrapper mx-auto flex items-center justify-between py-2">
         <div className="text-xl font-semibold">Book Distiller</div>
+        <nav className="ml-6 flex gap-4 text-sm">
+          <Link
+            to="/"
+            className="text-muted-foreground [&.active]:text-foreground"
+          >
+            Distiller
+          </Link>
+          <Link
+            to="/library"
+            className="text-muted-foreground [&.active]:text-foreground"
+          >
+            Library
+          </Link>
+        </nav>
         <div className="ml-auto">
           <ThemeToggle />
         </div>
@@ -0,0 +1,96 @@
+import { type BookRecord, db } from '@/lib/db';
+import { toChapterRecords } from '@/lib/extract/chapters';
+import { extractText, type PageProgress } from '@/lib/extract/extract-text';
+import { publicationFields } from '@/lib/extract/metadata';
+
+export type LibraryEntry = Omit<BookRecord, 'blob' | 'text'> & {
+  charCount: number;
+  sectionCount: number;
+  hasBlob: boolean;
+};
+
+/** Every stored book, newest first, with counts for the library table. */
+export async function listLibrary(): Promise<Array<LibraryEntry>> {
+  const books = await db.books.orderBy('createdAt').reverse().toArray();
+  return Promise.all(
+    books.map(async ({ blob, text, ...book }) => ({
+      ...book,
+      charCount: text?.length ?? 0,
+      sectionCount: await db.sections.where({ bookId: book.id }).count(),
+      hasBlob: !!blob,
+    })),
+  );
+}
+
+export async function renameBook(
+  id: string,
+  changes: { title: string; author: string },
+) {
+  await db.books.update(id, changes);
+}
+
+/**
+ * Runs text extraction again on the stored original file. Chapters are
+ * rebuilt and chunk notes dropped because they were built from the old text.
+ */
+export async function reextractBook(
+  id: string,
+  onProgress?: (progress: PageProgress) => void,
+) {
+  const book = await db.books.get(id);
+  if (!book?.blob) {
+    throw new Error('The original file for this book is not stored');
+  }
+  const { text, metadata, chapters } = await extractText(
+    book.blob,
+    book.name,
+    onProgress,
+  );
+  await db.transaction('rw', db.books, db.chunks, db.chapters, async () => {
+    // Title and author are left alone: the user may have renamed the book
+    await db.books.update(id, { text, ...publicationFields(metadata) });
+    await db.chunks.where({ bookId: id }).delete();
+    await db.chapters.where({ bookId: id }).delete();
+    await db.chapters.bulkPut(toChapterRecords(id, chapters, text.length));
+  });
+  return text;
+}
+
+/**
+ * Deletes a book with its stored file, chapters, runs, sections, notes, usage
+ * log, undo history and generation state.
+ */
+export async function deleteBook(id: string) {
+  await db.transaction(
+    'rw',
+    [
+      db.books,
+      db.runs,
+      db.sections,
+      db.chunks,
+      db.chapters,
+      db.usage,
+      db.history,
+      db.runners,
+      db.settings,
+    ],
+    async () => {
+      await db.chapters.where({ bookId: id }).delete();
+      await db.usage.where({ bookId: id }).delete();
+      await db.sections.where({ bookId: id }).delete();
+      await db.history.where({ bookId: id }).delete();
+      await db.runners.where({ bookId: id }).delete();
+      await db.runs.where({ bookId: id }).delete();
+      await db.chunks.where({ bookId: id }).delete();
+      await db.books.delete(id);
+      const last = await db.settings.get('last_book_id');
+      if (last?.value === id) {
+        await db.settings.delete('last_book_id');
+      }
+    },
+  );
+}
+
+export async function openBook(id: string) {
+  await db.settings.put({ key: 'last_book_id', value: id });
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'vitest';
+
+import { parseRetryAfter, providerErrorFromBody } from './errors';
+
+const kindOf = (status: number | undefined, body: unknown) =>
+  providerErrorFromBody(
+    'Test',
+    status,
+    typeof body === 'string' ? body : JSON.stringify(body),
+  ).kind;
+
+describe('providerErrorFromBody', () => {
+  test('classifies OpenAI error bodies', () => {
+    expect(
+      kindOf(401, { error: { message: 'Incorrect API key provided' } }),
+    ).toBe('auth');
+    expect(
+      kindOf(429, {
+        error: { type: 'requests', code: 'rate_limit_exceeded' },
+      }),
+    ).toBe('rate_limit');
+    expect(
+      kindOf(429, {
+        error: { type: 'insufficient_quota', code: 'insufficient_quota' },
+      }),
+    ).toBe('quota');
+    expect(
+      kindOf(400, {
+        error: {
+          message: "This model's maximum context length is 128000 tokens.",
+          code: 'context_length_exceeded',
+        },
+      }),
+    ).toBe('context_length');
+    expect(kindOf(400, { error: { code: 'content_filter' } })).toBe(
+      'content_filter',
+    );
+  });
+
+  test('classifies Anthropic error bodies, including stream events', () => {
+    const body = (type: string, message = '') => ({
+      type: 'error',
+      error: { type, message },
+    });
+    expect(kindOf(529, body('overloaded_error'))).toBe('overloaded');
+    expect(kindOf(undefined, body('overloaded_error'))).toBe('overloaded');
+    expect(
+      kindOf(
+        400,
+        body(
+          'invalid_request_error',
+          'prompt is too long: 210000 tokens > 200000 maximum',
+        ),
+      ),
+    ).toBe('context_length');
+  });
+
+  test('classifies Gemini error bodies and reads retryDelay', () => {
+    const error = providerErrorFromBody(
+      'Gemini',
+      429,
+      JSON.stringify([
+        {
+          error: {
+            code: 429,
+            status: 'RESOURCE_EXHAUSTED',
+            details: [{ retryDelay: '13s' }],
+          },
+        },
+      ]),
+    );
+    expect(error.kind).toBe('rate_limit');
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(13000);
+    expect(
+      kindOf(400, {
+        error: {
+          message: 'API key not valid. Please pass a valid API key.',
+          status: 'INVALID_ARGUMENT',
+        },
+      }),
+    ).toBe('auth');
+  });
+
+  test('falls back on the status for plain-text bodies', () => {
+    expect(kindOf(502, 'Bad Gateway')).toBe('server');
+    expect(kindOf(404, '{"error":"model not found"}')).toBe('bad_request');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  test('reads seconds, HTTP dates and milliseconds', () => {
+    expect(parseRetryAfter(new Headers({ 'retry-after': '7' }))).toBe(7000);
+    expect(
+      parseRetryAfter(
+        new Headers({ 'retry-after': 'Wed, 21 Oct 2026 07:28:10 GMT' }),
+        undefined,
+        Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'),
+      ),
+    ).toBe(10000);
+    expect(
+      parseRetryAfter(
+        new Headers({ 'retry-after-ms': '250', 'retry-after': '1' }),
+      ),
+    ).toBe(250);
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+  });
+});
@@ -0,0 +1,208 @@
+export type ProviderErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'overloaded'
+  | 'context_length'
+  | 'content_filter'
+  | 'network'
+  | 'server'
+  | 'bad_request';
+
+const RETRYABLE = new Set<ProviderErrorKind>([
+  'rate_limit',
+  'overloaded',
+  'network',
+  'server',
+]);
+
+const CONTENT_FILTER = /content[\s_-]?(filter|policy)|safety/i;
+const CONTEXT_LENGTH =
+  /context[\s_-]?(length|window)|prompt is too long|maximum context|exceeds the maximum number of tokens|too many tokens/i;
+const INVALID_KEY =
+  /api[\s_-]?key (not valid|invalid)|invalid api[\s_-]?key|incorrect api[\s_-]?key/i;
+const AUTH_TAG = /authentication|permission|api_key_invalid/;
+const RATE_LIMIT_TAG = /rate_limit|resource_exhausted/;
+const OVERLOADED_TAG = /overloaded|unavailable/;
+const DURATION_SECONDS = /^([\d.]+)s$/;
+
+/** A failed provider call, classified so callers can decide what to do. */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  /** Provider label, e.g. "OpenAI". */
+  readonly provider: string;
+  readonly status?: number;
+  /** How long the server asked us to wait before retrying, in ms. */
+  readonly retryAfterMs?: number;
+
+  constructor(init: {
+    kind: ProviderErrorKind;
+    provider: string;
+    message: string;
+    status?: number;
+    retryAfterMs?: number;
+  }) {
+    super(init.message);
+    this.name = 'ProviderError';
+    this.kind = init.kind;
+    this.provider = init.provider;
+    this.status = init.status;
+    this.retryAfterMs = init.retryAfterMs;
+  }
+
+  get retryable() {
+    return RETRYABLE.has(this.kind);
+  }
+}
+
+/** The shapes error bodies come in across OpenAI, Anthropic, Gemini and Ollama. */
+type ErrorBody = {
+  message?: string;
+  error?:
+    | string
+    | {
+        message?: string;
+        type?: string;
+        code?: string | number | null;
+        status?: string;
+        details?: Array<{ reason?: string; retryDelay?: string }>;
+      };
+};
+
+type ErrorDetail = { message: string; tag: string; retryDelay?: string };
+
+function readBody(body: string): ErrorDetail {
+  let parsed: ErrorBody | undefined;
+  try {
+    const json = JSON.parse(body) as ErrorBody | Array<ErrorBody>;
+    // Gemini's streaming endpoint wraps the error in an array
+    parsed = Array.isArray(json) ? json[0] : json;
+  } catch {
+    return { message: body.trim().slice(0, 500), tag: '' };
+  }
+  const error = parsed?.error;
+  if (typeof error === 'string' || !error) {
+    return { message: error || parsed?.message || '', tag: '' };
+  }
+  const details = error.details ?? [];
+  return {
+    message: error.message ?? '',
+    // Codes, types and statuses matched together, e.g. "rate_limit_error"
+    tag: [error.type, error.code, error.status, ...details.map((d) => d.reason)]
+      .filter((t) => t !== undefined && t !== null)
+      .join(' ')
+      .toLowerCase(),
+    retryDelay: details.find((d) => d.retryDelay)?.retryDelay,
+  };
+}
+
+function classify(
+  status: number | undefined,
+  { message, tag }: ErrorDetail,
+): ProviderErrorKind {
+  const text = `${tag} ${message}`;
+  if (
+    status === 401 ||
+    status === 403 ||
+    AUTH_TAG.test(tag) ||
+    INVALID_KEY.test(message)
+  ) {
+    return 'auth';
+  }
+  if (CONTENT_FILTER.test(text)) {
+    return 'content_filter';
+  }
+  if (status === 413 || CONTEXT_LENGTH.test(text)) {
+    return 'context_length';
+  }
+  if (tag.includes('insufficient_quota')) {
+    return 'quota';
+  }
+  if (status === 429 || RATE_LIMIT_TAG.test(tag)) {
+    return 'rate_limit';
+  }
+  if (status === 503 || status === 529 || OVERLOADED_TAG.test(tag)) {
+    return 'overloaded';
+  }
+  if (status !== undefined && status >= 500) {
+    return 'server';
+  }
+  return 'bad_request';
+}
+
+/**
+ * Milliseconds to wait from `retry-after-ms`, `retry-after` (seconds or an
+ * HTTP date) or a Gemini `retryDelay` such as "13s".
+ */
+export function parseRetryAfter(
+  headers: Headers | undefined,
+  retryDelay?: string,
+  now = Date.now(),
+) {
+  const ms = Number(headers?.get('retry-after-ms'));
+  if (ms > 0) {
+    return ms;
+  }
+  const value = headers?.get('retry-after');
+  if (value) {
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(date - now, 0);
+    }
+  }
+  const delay = retryDelay?.match(DURATION_SECONDS);
+  return delay ? Number(delay[1]) * 1000 : undefined;
+}
+
+/**
+ * Builds a typed error from an error body, either a non-2xx response or an
+ * error event in the middle of a stream (`status` undefined).
+ */
+export function providerErrorFromBody(
+  provider: string,
+  status: number | undefined,
+  body: string,
+  headers?: Headers,
+) {
+  const detail = readBody(body);
+  return new ProviderError({
+    kind: classify(status, detail),
+    provider,
+    status,
+    message: `${provider}${status ? ` error ${status}` : ' error'}${detail.message ? `: ${detail.message}` : ''}`,
+    retryAfterMs: parseRetryAfter(headers, detail.retryDelay),
+  });
+}
+
+/**
+ * `fetch` for provider APIs: network failures and non-2xx responses come back
+ * as {@link ProviderError}s. Aborts are rethrown untouched.
+ */
+export async function providerFetch(
+  provider: string,
+  url: string,
+  init: RequestInit,
+) {
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (e) {
+    if (init.signal?.aborted) {
+      throw e;
+    }
+    throw new ProviderError({
+      kind: 'network',
+      provider,
+      message: `${provider}: ${e instanceof Error ? e.message : String(e)}`,
+    });
+  }
+  if (!res.ok) {
+    const body = await res.text().catch(() => '');
+    throw providerErrorFromBody(provider, res.status, body, res.headers);
+  }
+  return res;
+}
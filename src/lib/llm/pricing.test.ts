@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'vitest';
+
+import { costOf, formatCost, priceFor } from './pricing';
+
+describe('pricing', () => {
+  test('matches the longest model-name prefix', () => {
+    expect(priceFor('gpt-4o-mini-2024-07-18')).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+    expect(priceFor('GPT-4o')).toEqual({ input: 2.5, output: 10 });
+    expect(priceFor('llama3.1')).toBeUndefined();
+  });
+
+  test('prices usage per million tokens', () => {
+    expect(
+      costOf('claude-3-5-sonnet-latest', {
+        inputTokens: 100_000,
+        outputTokens: 2000,
+      }),
+    ).toBeCloseTo(0.33);
+    expect(
+      costOf('llama3.1', { inputTokens: 1000, outputTokens: 1000 }),
+    ).toBeUndefined();
+  });
+
+  test('formats sub-cent costs', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(1.236)).toBe('$1.24');
+  });
+});
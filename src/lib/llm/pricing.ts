@@ -0,0 +1,64 @@
+import type { TokenUsage } from './types';
+
+/** USD per million tokens. */
+export type ModelPrice = { input: number; output: number };
+
+/**
+ * List prices matched by model-name prefix (longest first). Models that are
+ * not listed, such as local ones, have no cost.
+ */
+const PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['gpt-5-nano', { input: 0.05, output: 0.4 }],
+  ['gpt-5-mini', { input: 0.25, output: 2 }],
+  ['gpt-5', { input: 1.25, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4-turbo', { input: 10, output: 30 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['o1-mini', { input: 1.1, output: 4.4 }],
+  ['o1', { input: 15, output: 60 }],
+  ['o3-mini', { input: 1.1, output: 4.4 }],
+  ['o3', { input: 2, output: 8 }],
+  ['o4-mini', { input: 1.1, output: 4.4 }],
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-opus', { input: 15, output: 75 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-2.5-flash-lite', { input: 0.1, output: 0.4 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+  ['gemini-2.0-flash-lite', { input: 0.075, output: 0.3 }],
+  ['gemini-2.0-flash', { input: 0.1, output: 0.4 }],
+  ['gemini-1.5-pro', { input: 1.25, output: 5 }],
+  ['gemini-1.5-flash', { input: 0.075, output: 0.3 }],
+];
+
+export function priceFor(model: string) {
+  const name = model.trim().toLowerCase();
+  const match = [...PRICES]
+    .sort((a, b) => b[0].length - a[0].length)
+    .find(([prefix]) => name.startsWith(prefix));
+  return match?.[1];
+}
+
+/** Cost of a call in USD, or `undefined` when the model has no known price. */
+export function costOf(model: string, usage: TokenUsage) {
+  const price = priceFor(model);
+  if (!price) {
+    return undefined;
+  }
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+export function formatCost(usd: number) {
+  return usd < 0.01 && usd > 0 ? `<$0.01` : `$${usd.toFixed(2)}`;
+}
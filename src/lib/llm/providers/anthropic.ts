@@ -0,0 +1,96 @@
+import { providerErrorFromBody, providerFetch } from '../errors';
+import { collectStream, parseEventData } from '../sse';
+import type { LLMProvider, TokenUsage } from '../types';
+
+type ContentBlockDelta = {
+  type: string;
+  delta?: { type: string; text?: string };
+};
+
+type MessageStart = { message?: { usage?: { input_tokens: number } } };
+type MessageDelta = { usage?: { output_tokens: number } };
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultModel: 'claude-3-5-sonnet-latest',
+  fields: [
+    {
+      key: 'apiKey',
+      label: 'API key',
+      type: 'password',
+      placeholder: 'API key for Anthropic (stored locally)',
+      required: true,
+    },
+  ],
+  generate: async ({
+    model,
+    system,
+    history = [],
+    user,
+    settings,
+    signal,
+    onToken,
+    onUsage,
+  }) => {
+    const res = await providerFetch(
+      'Anthropic',
+      'https://api.anthropic.com/v1/messages',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': settings.apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model,
+          system,
+          messages: [...history, { role: 'user', content: user }].map((m) => ({
+            role: m.role,
+            content: [{ type: 'text', text: m.content }],
+          })),
+          max_tokens: 2000,
+          temperature: 0.7,
+          stream: true,
+        }),
+        signal,
+      },
+    );
+    // Input tokens arrive with message_start, the output total with message_delta
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let reported = false;
+    try {
+      return await collectStream(
+        'Anthropic',
+        res,
+        (msg) => {
+          if (msg.event === 'content_block_delta') {
+            return parseEventData<ContentBlockDelta>(msg.data)?.delta?.text;
+          }
+          if (msg.event === 'error') {
+            // e.g. overloaded_error after the stream has started
+            throw providerErrorFromBody('Anthropic', undefined, msg.data);
+          }
+          if (msg.event === 'message_start') {
+            const start = parseEventData<MessageStart>(msg.data);
+            usage.inputTokens = start?.message?.usage?.input_tokens ?? 0;
+            reported = true;
+          } else if (msg.event === 'message_delta') {
+            const delta = parseEventData<MessageDelta>(msg.data);
+            usage.outputTokens = delta?.usage?.output_tokens ?? 0;
+            reported = true;
+          }
+          return undefined;
+        },
+        onToken,
+      );
+    } finally {
+      // A stopped or failed call still bills its input; the output total
+      // only arrives with message_delta at the end
+      if (reported) {
+        onUsage?.(usage);
+      }
+    }
+  },
+};
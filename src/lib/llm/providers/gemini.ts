@@ -0,0 +1,100 @@
+import { ProviderError, providerFetch } from '../errors';
+import { collectStream, parseEventData } from '../sse';
+import type { LLMProvider, TokenUsage } from '../types';
+
+const BLOCKED_FINISH_REASONS = new Set([
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'RECITATION',
+]);
+
+type GenerateContentResponse = {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+};
+
+export const geminiProvider: LLMProvider = {
+  id: 'google',
+  label: 'Google (Gemini)',
+  defaultModel: 'gemini-1.5-pro',
+  fields: [
+    {
+      key: 'apiKey',
+      label: 'API key',
+      type: 'password',
+      placeholder: 'API key for Gemini (stored locally)',
+      required: true,
+    },
+  ],
+  generate: async ({
+    model,
+    system,
+    history = [],
+    user,
+    settings,
+    signal,
+    onToken,
+    onUsage,
+  }) => {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse&key=${encodeURIComponent(settings.apiKey)}`;
+    const res = await providerFetch('Gemini', url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...(system.trim() && {
+          systemInstruction: { parts: [{ text: system }] },
+        }),
+        // Gemini calls the assistant side of the conversation "model"
+        contents: [...history, { role: 'user', content: user }].map((m) => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }],
+        })),
+      }),
+      signal,
+    });
+    // Every chunk carries running totals; the last one is final
+    let usage: TokenUsage | undefined;
+    try {
+      return await collectStream(
+        'Gemini',
+        res,
+        (msg) => {
+          const chunk = parseEventData<GenerateContentResponse>(msg.data);
+          const blocked =
+            chunk?.promptFeedback?.blockReason ??
+            chunk?.candidates?.find((c) =>
+              BLOCKED_FINISH_REASONS.has(c.finishReason ?? ''),
+            )?.finishReason;
+          if (blocked) {
+            throw new ProviderError({
+              kind: 'content_filter',
+              provider: 'Gemini',
+              message: `Gemini blocked the response: ${blocked}`,
+            });
+          }
+          if (chunk?.usageMetadata) {
+            usage = {
+              inputTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+              outputTokens: chunk.usageMetadata.candidatesTokenCount ?? 0,
+            };
+          }
+          return chunk?.candidates?.[0]?.content?.parts
+            ?.map((p) => p.text ?? '')
+            .join('');
+        },
+        onToken,
+      );
+    } finally {
+      // The running totals so far also count for a stopped or failed call
+      if (usage) {
+        onUsage?.(usage);
+      }
+    }
+  },
+};
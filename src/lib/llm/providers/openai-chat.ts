@@ -0,0 +1,101 @@
+import { ProviderError, providerErrorFromBody, providerFetch } from '../errors';
+import { collectStream, parseEventData } from '../sse';
+import type { ChatMessage, TokenUsage } from '../types';
+
+type ChatCompletionChunk = {
+  choices?: Array<{
+    delta?: { content?: string };
+    finish_reason?: string | null;
+  }>;
+  /** Some gateways (OpenRouter) report failures inside the stream. */
+  error?: unknown;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+};
+
+type ChatCompletionRequest = {
+  url: string;
+  headers: Record<string, string>;
+  model: string;
+  system: string;
+  history?: Array<ChatMessage>;
+  user: string;
+  signal?: AbortSignal;
+  onToken?: (delta: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
+  /**
+   * Asks for a final usage chunk via `stream_options`. Off by default because
+   * some compatible servers reject the parameter; usage is still picked up
+   * when a server sends it unasked.
+   */
+  includeUsage?: boolean;
+  /** Used in error messages so the user knows which backend failed. */
+  label: string;
+};
+
+/**
+ * Shared streaming request for every backend that speaks the OpenAI
+ * `/chat/completions` wire format.
+ */
+export async function callChatCompletions({
+  url,
+  headers,
+  model,
+  system,
+  history = [],
+  user,
+  signal,
+  onToken,
+  onUsage,
+  includeUsage,
+  label,
+}: ChatCompletionRequest) {
+  const res = await providerFetch(label, url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: system },
+        ...history,
+        { role: 'user', content: user },
+      ],
+      temperature: 0.7,
+      stream: true,
+      ...(includeUsage && { stream_options: { include_usage: true } }),
+    }),
+    signal,
+  });
+  let usage: TokenUsage | undefined;
+  try {
+    return await collectStream(
+      label,
+      res,
+      (msg) => {
+        const chunk = parseEventData<ChatCompletionChunk>(msg.data);
+        if (chunk?.error) {
+          throw providerErrorFromBody(label, undefined, msg.data);
+        }
+        if (chunk?.choices?.[0]?.finish_reason === 'content_filter') {
+          throw new ProviderError({
+            kind: 'content_filter',
+            provider: label,
+            message: `${label} stopped the response: content filter`,
+          });
+        }
+        if (chunk?.usage) {
+          usage = {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          };
+        }
+        return chunk?.choices?.[0]?.delta?.content;
+      },
+      onToken,
+    );
+  } finally {
+    // A stopped or failed call is billed too; report what the server sent
+    if (usage) {
+      onUsage?.(usage);
+    }
+  }
+}
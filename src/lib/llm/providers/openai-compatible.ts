@@ -0,0 +1,73 @@
+import type { LLMProvider } from '../types';
+import { callChatCompletions } from './openai-chat';
+
+const TRAILING_SLASHES = /\/+$/;
+
+export function chatCompletionsUrl(baseUrl: string, apiVersion?: string) {
+  const url = `${baseUrl.trim().replace(TRAILING_SLASHES, '')}/chat/completions`;
+  return apiVersion
+    ? `${url}?api-version=${encodeURIComponent(apiVersion)}`
+    : url;
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API: Ollama, LM Studio,
+ * vLLM, OpenRouter, Azure OpenAI. Setting an API version switches to Azure's
+ * `api-key` header.
+ */
+export const openaiCompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  defaultModel: 'llama3.1',
+  fields: [
+    {
+      key: 'baseUrl',
+      label: 'Base URL',
+      type: 'url',
+      placeholder: 'Base URL (e.g., http://localhost:11434/v1)',
+      required: true,
+      help: 'The part before /chat/completions.',
+    },
+    {
+      key: 'apiKey',
+      label: 'API key',
+      type: 'password',
+      placeholder: 'API key (optional for local servers)',
+    },
+    {
+      key: 'apiVersion',
+      label: 'API version',
+      type: 'text',
+      placeholder: 'API version (Azure only, e.g., 2024-10-21)',
+    },
+  ],
+  generate: ({
+    model,
+    system,
+    history,
+    user,
+    settings,
+    signal,
+    onToken,
+    onUsage,
+  }) => {
+    const headers: Record<string, string> = {};
+    if (settings.apiKey && settings.apiVersion) {
+      headers['api-key'] = settings.apiKey;
+    } else if (settings.apiKey) {
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+    return callChatCompletions({
+      url: chatCompletionsUrl(settings.baseUrl, settings.apiVersion),
+      headers,
+      model,
+      system,
+      history,
+      user,
+      signal,
+      onToken,
+      onUsage,
+      label: 'OpenAI-compatible',
+    });
+  },
+};
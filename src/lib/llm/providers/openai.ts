@@ -0,0 +1,40 @@
+import type { LLMProvider } from '../types';
+import { callChatCompletions } from './openai-chat';
+
+export const openaiProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  defaultModel: 'gpt-4o-mini',
+  fields: [
+    {
+      key: 'apiKey',
+      label: 'API key',
+      type: 'password',
+      placeholder: 'API key for OpenAI (stored locally)',
+      required: true,
+    },
+  ],
+  generate: ({
+    model,
+    system,
+    history,
+    user,
+    settings,
+    signal,
+    onToken,
+    onUsage,
+  }) =>
+    callChatCompletions({
+      url: 'https://api.openai.com/v1/chat/completions',
+      headers: { Authorization: `Bearer ${settings.apiKey}` },
+      model,
+      system,
+      history,
+      user,
+      signal,
+      onToken,
+      onUsage,
+      includeUsage: true,
+      label: 'OpenAI',
+    }),
+};
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'vitest';
+
+import { chatCompletionsUrl } from './providers/openai-compatible';
+import {
+  getProvider,
+  listProviders,
+  missingFields,
+  withoutSecrets,
+} from './registry';
+
+describe('provider registry', () => {
+  test('lists the built-in providers', () => {
+    expect(listProviders().map((p) => p.id)).toEqual([
+      'openai',
+      'anthropic',
+      'google',
+      'openai-compatible',
+    ]);
+  });
+
+  test('reports empty required fields', () => {
+    const compatible = getProvider('openai-compatible');
+    expect(compatible).toBeDefined();
+    if (!compatible) {
+      return;
+    }
+    expect(missingFields(compatible, {})).toEqual(['Base URL']);
+    expect(
+      missingFields(compatible, { baseUrl: 'http://localhost:11434/v1' }),
+    ).toEqual([]);
+  });
+});
+
+describe('withoutSecrets', () => {
+  test('drops password fields and unknown providers', () => {
+    expect(
+      withoutSecrets({
+        openai: { apiKey: 'sk-1' },
+        'openai-compatible': { baseUrl: 'http://localhost', apiKey: 'k' },
+        retired: { apiKey: 'x' },
+      }),
+    ).toEqual({
+      openai: {},
+      'openai-compatible': { baseUrl: 'http://localhost' },
+    });
+  });
+});
+
+describe('chatCompletionsUrl', () => {
+  test('joins the base URL without doubling slashes', () => {
+    expect(chatCompletionsUrl('http://localhost:1234/v1/')).toBe(
+      'http://localhost:1234/v1/chat/completions',
+    );
+  });
+
+  test('adds the Azure api-version query', () => {
+    expect(
+      chatCompletionsUrl(
+        'https://res.openai.azure.com/openai/deployments/gpt4o',
+        '2024-10-21',
+      ),
+    ).toBe(
+      'https://res.openai.azure.com/openai/deployments/gpt4o/chat/completions?api-version=2024-10-21',
+    );
+  });
+});
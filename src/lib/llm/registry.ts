@@ -0,0 +1,63 @@
+import { anthropicProvider } from './providers/anthropic';
+import { geminiProvider } from './providers/gemini';
+import { openaiProvider } from './providers/openai';
+import { openaiCompatibleProvider } from './providers/openai-compatible';
+import type { LLMProvider, ProviderSettings } from './types';
+
+const registry = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function getProvider(id: string) {
+  return registry.get(id);
+}
+
+/** Providers in registration order, for populating pickers. */
+export function listProviders() {
+  return [...registry.values()];
+}
+
+/** Labels of required fields that are still empty. */
+export function missingFields(
+  provider: LLMProvider,
+  settings: ProviderSettings = {},
+) {
+  return provider.fields
+    .filter((f) => f.required && !settings[f.key]?.trim())
+    .map((f) => f.label);
+}
+
+/**
+ * Settings safe to write to a backup: password fields such as API keys are
+ * dropped, and so are providers that aren't registered.
+ */
+export function withoutSecrets(
+  settings: Record<string, ProviderSettings>,
+): Record<string, ProviderSettings> {
+  return Object.fromEntries(
+    Object.entries(settings).flatMap(([id, values]) => {
+      const provider = getProvider(id);
+      if (!provider) {
+        return [];
+      }
+      const secret = new Set(
+        provider.fields.filter((f) => f.type === 'password').map((f) => f.key),
+      );
+      return [
+        [
+          id,
+          Object.fromEntries(
+            Object.entries(values).filter(([key]) => !secret.has(key)),
+          ),
+        ],
+      ];
+    }),
+  );
+}
+
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(geminiProvider);
+registerProvider(openaiCompatibleProvider);
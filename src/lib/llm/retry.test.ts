@@ -0,0 +1,80 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import { ProviderError } from './errors';
+import { backoffDelay, generateWithRetry } from './retry';
+import type { GenerateRequest, LLMProvider } from './types';
+
+const error = (kind: ProviderError['kind'], retryAfterMs?: number) =>
+  new ProviderError({ kind, provider: 'Test', message: kind, retryAfterMs });
+
+const providerFrom = (
+  generate: (req: GenerateRequest) => Promise<string>,
+): LLMProvider => ({
+  id: 'test',
+  label: 'Test',
+  defaultModel: 'm',
+  fields: [],
+  generate,
+});
+
+const request: GenerateRequest = {
+  model: 'm',
+  system: '',
+  user: '',
+  settings: {},
+};
+
+describe('backoffDelay', () => {
+  test('doubles per attempt and honours Retry-After', () => {
+    const half = () => 0;
+    expect(backoffDelay(1, error('server'), 1000, 60000, half)).toBe(500);
+    expect(backoffDelay(3, error('server'), 1000, 60000, half)).toBe(2000);
+    expect(backoffDelay(10, error('server'), 1000, 60000, half)).toBe(60000);
+    expect(backoffDelay(1, error('rate_limit', 7000))).toBe(7000);
+  });
+});
+
+describe('generateWithRetry', () => {
+  test('retries retryable errors until the call succeeds', async () => {
+    const generate = vi
+      .fn<(req: GenerateRequest) => Promise<string>>()
+      .mockRejectedValueOnce(error('rate_limit', 1))
+      .mockRejectedValueOnce(error('overloaded', 1))
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+    await expect(
+      generateWithRetry(providerFrom(generate), request, { onRetry }),
+    ).resolves.toBe('done');
+    expect(generate).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([s]) => s.attempt)).toEqual([1, 2]);
+  });
+
+  test('does not retry errors that will not go away', async () => {
+    const generate = vi.fn().mockRejectedValue(error('auth'));
+    await expect(
+      generateWithRetry(providerFrom(generate), request),
+    ).rejects.toMatchObject({ kind: 'auth' });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not retry once tokens have streamed', async () => {
+    const generate = vi.fn((req: GenerateRequest) => {
+      req.onToken?.('partial');
+      return Promise.reject(error('network'));
+    });
+    const onToken = vi.fn();
+    await expect(
+      generateWithRetry(providerFrom(generate), { ...request, onToken }),
+    ).rejects.toMatchObject({ kind: 'network' });
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(onToken).toHaveBeenCalledWith('partial');
+  });
+
+  test('gives up after the configured retries', async () => {
+    const generate = vi.fn().mockRejectedValue(error('server', 1));
+    await expect(
+      generateWithRetry(providerFrom(generate), request, { retries: 2 }),
+    ).rejects.toMatchObject({ kind: 'server' });
+    expect(generate).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,100 @@
+import { ProviderError } from './errors';
+import type { GenerateRequest, LLMProvider } from './types';
+
+export type RetryOptions = {
+  /** Retries after the first attempt. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before each wait, e.g. to show "retrying in 8s". */
+  onRetry?: (status: RetryStatus) => void;
+};
+
+export type RetryStatus = {
+  error: ProviderError;
+  /** 1 for the first retry. */
+  attempt: number;
+  retries: number;
+  delayMs: number;
+};
+
+const DEFAULT_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+/**
+ * Wait before retry `attempt` (1-based): what the server asked for, otherwise
+ * exponential backoff with jitter, capped at `maxDelayMs`.
+ */
+export function backoffDelay(
+  attempt: number,
+  error: ProviderError,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  random = Math.random,
+) {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, maxDelayMs);
+  }
+  const exponential = baseDelayMs * 2 ** (attempt - 1);
+  return Math.min(exponential * (0.5 + random() / 2), maxDelayMs);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * `provider.generate` with retries for rate limits, overload, server and
+ * network errors. A call that already streamed tokens is not retried, since
+ * the caller has shown them.
+ */
+export async function generateWithRetry(
+  provider: LLMProvider,
+  req: GenerateRequest,
+  {
+    retries = DEFAULT_RETRIES,
+    baseDelayMs,
+    maxDelayMs,
+    onRetry,
+  }: RetryOptions = {},
+) {
+  for (let attempt = 1; ; attempt++) {
+    let streamed = false;
+    try {
+      return await provider.generate({
+        ...req,
+        onToken: (delta) => {
+          streamed = true;
+          req.onToken?.(delta);
+        },
+      });
+    } catch (e) {
+      if (
+        !(e instanceof ProviderError && e.retryable) ||
+        streamed ||
+        req.signal?.aborted ||
+        attempt > retries
+      ) {
+        throw e;
+      }
+      const delayMs = backoffDelay(attempt, e, baseDelayMs, maxDelayMs);
+      onRetry?.({ error: e, attempt, retries, delayMs });
+      await sleep(delayMs, req.signal);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { ProviderSettings } from './types';
+
+const STORAGE_KEY = 'bd_providerSettings';
+
+export type ProviderSettingsMap = Record<string, ProviderSettings>;
+
+/**
+ * Reads per-provider settings from localStorage, migrating the older
+ * `bd_apiKeys` (one key per provider) and `bd_apiKey` (single key) formats.
+ */
+export function loadProviderSettings(): ProviderSettingsMap {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+
+    const legacyKeys = localStorage.getItem('bd_apiKeys');
+    if (legacyKeys) {
+      const keys: Record<string, string> = JSON.parse(legacyKeys);
+      localStorage.removeItem('bd_apiKeys');
+      return Object.fromEntries(
+        Object.entries(keys).map(([id, apiKey]) => [id, { apiKey }]),
+      );
+    }
+
+    // Old single API key: default to openai
+    const oldApiKey = localStorage.getItem('bd_apiKey');
+    if (oldApiKey) {
+      localStorage.removeItem('bd_apiKey');
+      return { openai: { apiKey: oldApiKey } };
+    }
+
+    return {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettingsMap) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'vitest';
+
+import { ProviderError } from './errors';
+import { collectStream, createSSEParser, type SSEMessage } from './sse';
+
+const parseAll = (chunks: Array<string>) => {
+  const out: Array<SSEMessage> = [];
+  const parser = createSSEParser((msg) => out.push(msg));
+  for (const chunk of chunks) {
+    parser.feed(chunk);
+  }
+  parser.end();
+  return out;
+};
+
+describe('createSSEParser', () => {
+  test('parses named events and default message events', () => {
+    expect(
+      parseAll([
+        'event: content_block_delta\ndata: {"a":1}\n\n',
+        'data: [DONE]\n\n',
+      ]),
+    ).toEqual([
+      { event: 'content_block_delta', data: '{"a":1}' },
+      { event: 'message', data: '[DONE]' },
+    ]);
+  });
+
+  test('handles events split across chunks and CRLF line endings', () => {
+    expect(parseAll(['da', 'ta: hel', 'lo\r\n', '\r\ndata: x'])).toEqual([
+      { event: 'message', data: 'hello' },
+      { event: 'message', data: 'x' },
+    ]);
+  });
+
+  test('does not split an event on a CRLF divided between chunks', () => {
+    expect(parseAll(['data: a\r', '\ndata: b\r\n\r\n'])).toEqual([
+      { event: 'message', data: 'a\nb' },
+    ]);
+  });
+
+  test('ignores comments and joins multi-line data', () => {
+    expect(parseAll([': ping\n\ndata: a\ndata: b\n\n'])).toEqual([
+      { event: 'message', data: 'a\nb' },
+    ]);
+  });
+});
+
+describe('collectStream', () => {
+  /** A response that sends `chunks`, then fails with `error`. */
+  const failingResponse = (chunks: Array<string>, error: unknown) => {
+    const encoder = new TextEncoder();
+    let sent = 0;
+    return new Response(
+      new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent < chunks.length) {
+            controller.enqueue(encoder.encode(chunks[sent++]));
+          } else {
+            controller.error(error);
+          }
+        },
+      }),
+    );
+  };
+
+  test('turns a connection dropped mid-stream into a network error', async () => {
+    const tokens: Array<string> = [];
+    const error = await collectStream(
+      'OpenAI',
+      failingResponse(['data: hel\n\n'], new TypeError('network error')),
+      (msg) => msg.data,
+      (delta) => tokens.push(delta),
+    ).catch((e: unknown) => e);
+    expect(tokens).toEqual(['hel']);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ kind: 'network', retryable: true });
+  });
+
+  test('rethrows aborts untouched', async () => {
+    const abort = new DOMException('The user aborted a request.', 'AbortError');
+    await expect(
+      collectStream('OpenAI', failingResponse([], abort), (msg) => msg.data),
+    ).rejects.toBe(abort);
+  });
+});
@@ -0,0 +1,132 @@
+import { ProviderError } from './errors';
+
+export type SSEMessage = { event: string; data: string };
+
+const LINE_BREAK = /\r\n|\r|\n/;
+
+/**
+ * Incremental `text/event-stream` parser. Feed it decoded chunks in any
+ * split; it calls `onMessage` once per blank-line-terminated event.
+ */
+export function createSSEParser(onMessage: (msg: SSEMessage) => void) {
+  let buffer = '';
+  let event = '';
+  let data: Array<string> = [];
+
+  const dispatch = () => {
+    if (data.length) {
+      onMessage({ event: event || 'message', data: data.join('\n') });
+    }
+    event = '';
+    data = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  };
+
+  return {
+    feed(chunk: string) {
+      buffer += chunk;
+      // A trailing CR may be the first half of a CRLF split across chunks
+      const heldCR = buffer.endsWith('\r');
+      const lines = (heldCR ? buffer.slice(0, -1) : buffer).split(LINE_BREAK);
+      buffer = (lines.pop() ?? '') + (heldCR ? '\r' : '');
+      for (const line of lines) {
+        processLine(line);
+      }
+    },
+    end() {
+      if (buffer) {
+        processLine(buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer);
+        buffer = '';
+      }
+      dispatch();
+    },
+  };
+}
+
+/** The next chunk of a stream; a dropped connection becomes a {@link ProviderError}. */
+async function readChunk(
+  provider: string,
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+) {
+  try {
+    return await reader.read();
+  } catch (e) {
+    // Aborts reject with a DOMException and are rethrown untouched
+    if (!(e instanceof TypeError)) {
+      throw e;
+    }
+    throw new ProviderError({
+      kind: 'network',
+      provider,
+      message: `${provider}: ${e.message}`,
+    });
+  }
+}
+
+/**
+ * Reads a streaming response, passing each event through `pick` to get its
+ * text delta. Deltas are forwarded to `onToken` and the joined text returned.
+ */
+export async function collectStream(
+  provider: string,
+  res: Response,
+  pick: (msg: SSEMessage) => string | undefined,
+  onToken?: (delta: string) => void,
+) {
+  if (!res.body) {
+    throw new Error('Response has no body to stream');
+  }
+  let text = '';
+  const parser = createSSEParser((msg) => {
+    const delta = pick(msg);
+    if (delta) {
+      text += delta;
+      onToken?.(delta);
+    }
+  });
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await readChunk(provider, reader);
+      if (done) {
+        break;
+      }
+      parser.feed(decoder.decode(value, { stream: true }));
+    }
+    parser.feed(decoder.decode());
+    parser.end();
+  } finally {
+    reader.releaseLock();
+  }
+  return text;
+}
+
+/** JSON.parse that yields `undefined` for keep-alives and `[DONE]` markers. */
+export function parseEventData<T>(data: string): T | undefined {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,44 @@
+export type ProviderFieldType = 'text' | 'password' | 'url';
+
+/** A single user-editable setting a provider needs (API key, base URL, ...). */
+export type ProviderField = {
+  key: string;
+  label: string;
+  type: ProviderFieldType;
+  placeholder?: string;
+  required?: boolean;
+  /** Short hint shown under the input. */
+  help?: string;
+};
+
+export type ProviderSettings = Record<string, string>;
+
+/** Tokens billed for one call, as reported by the provider. */
+export type TokenUsage = { inputTokens: number; outputTokens: number };
+
+/** An earlier turn of a multi-turn conversation. */
+export type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
+export type GenerateRequest = {
+  model: string;
+  system: string;
+  /** Turns before `user`, oldest first, starting with a user turn. */
+  history?: Array<ChatMessage>;
+  /** The latest user turn. */
+  user: string;
+  settings: ProviderSettings;
+  /** Aborts the underlying HTTP request. */
+  signal?: AbortSignal;
+  /** Called with each text delta as the response streams in. */
+  onToken?: (delta: string) => void;
+  /** Called once the stream ends, if the provider reported token usage. */
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export type LLMProvider = {
+  id: string;
+  label: string;
+  defaultModel: string;
+  fields: Array<ProviderField>;
+  generate: (req: GenerateRequest) => Promise<string>;
+};
@@ -0,0 +1,54 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import type { SectionRecord } from '@/lib/db';
+import { activeIndexOf, candidatesOf } from '@/lib/distill/candidates';
+
+type CandidatePickerProps = {
+  section: Pick<
+    SectionRecord,
+    'content' | 'chunks' | 'candidates' | 'activeCandidate'
+  >;
+  onSelect: (index: number) => void;
+};
+
+/** "‹ 2 / 3 ›" switcher between a section's generated versions. */
+export function CandidatePicker({ section, onSelect }: CandidatePickerProps) {
+  const candidates = candidatesOf(section);
+  if (candidates.length < 2) {
+    return null;
+  }
+  const active = activeIndexOf(section);
+  const instruction = candidates[active]?.instruction;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Previous candidate"
+        disabled={active === 0}
+        onClick={() => onSelect(active - 1)}
+      >
+        <ChevronLeft />
+      </Button>
+      <span>
+        Candidate {active + 1} / {candidates.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Next candidate"
+        disabled={active === candidates.length - 1}
+        onClick={() => onSelect(active + 1)}
+      >
+        <ChevronRight />
+      </Button>
+      {instruction && (
+        <span className="truncate" title={instruction}>
+          “{instruction}”
+        </span>
+      )}
+    </div>
+  );
+}
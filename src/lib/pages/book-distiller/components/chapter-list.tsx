@@ -0,0 +1,33 @@
+import type { ChapterRecord } from '@/lib/db';
+
+type ChapterListProps = {
+  chapters: Array<ChapterRecord>;
+  textLength: number;
+};
+
+/** Table of contents for the Source card, with each chapter's share of text. */
+export function ChapterList({ chapters, textLength }: ChapterListProps) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium">
+        {chapters.length} chapter{chapters.length === 1 ? '' : 's'}
+      </div>
+      <ol className="max-h-48 overflow-auto space-y-0.5 text-xs">
+        {chapters.map((c) => (
+          <li
+            key={c.id}
+            className="flex justify-between gap-2"
+            style={{ paddingLeft: `${(c.level - 1) * 0.75}rem` }}
+          >
+            <span className="truncate" title={c.title}>
+              {c.title}
+            </span>
+            <span className="shrink-0 text-muted-foreground tabular-nums">
+              {textLength ? `${Math.round((c.start / textLength) * 100)}%` : ''}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
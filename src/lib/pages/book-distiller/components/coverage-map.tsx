@@ -0,0 +1,92 @@
+import { Button } from '@/components/ui/button';
+import type { Region, RegionCoverage } from '@/lib/distill/coverage';
+import { cn } from '@/lib/utils';
+
+type CoverageMapProps = {
+  coverage: Array<RegionCoverage>;
+  textLength: number;
+  /** Headings of the accepted sections, by id, for the tooltips. */
+  headings: Map<string, string>;
+  /** Region the next section is asked to focus on. */
+  focus: Region | null;
+  onFocus: (region: Region | null) => void;
+};
+
+const shade = (score: number) =>
+  score >= 1 ? 'bg-primary' : score > 0 ? 'bg-primary/40' : 'bg-muted';
+
+/**
+ * The book's regions as a bar sized by length and shaded by how much the
+ * accepted sections draw on each. Clicking a region makes it the focus of
+ * the next section.
+ */
+export function CoverageMap({
+  coverage,
+  textLength,
+  headings,
+  focus,
+  onFocus,
+}: CoverageMapProps) {
+  const covered = coverage.filter((r) => r.score > 0).length;
+  const isFocus = (r: Region) =>
+    focus?.start === r.start && focus.end === r.end;
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="text-muted-foreground">
+        {covered} of {coverage.length} parts covered
+      </div>
+      <div className="flex h-6 w-full gap-px overflow-hidden rounded-md border">
+        {coverage.map((r) => (
+          <button
+            key={r.start}
+            type="button"
+            className={cn(
+              'h-full min-w-0.5 hover:opacity-80',
+              shade(r.score),
+              isFocus(r) && 'ring-2 ring-inset ring-destructive',
+            )}
+            style={{ width: `${((r.end - r.start) / textLength) * 100}%` }}
+            title={`${r.label}: ${
+              r.sections.length
+                ? r.sections.map((id) => headings.get(id) ?? id).join(', ')
+                : 'not covered'
+            }`}
+            aria-label={`Focus the next section on ${r.label}`}
+            onClick={() => onFocus(isFocus(r) ? null : r)}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="size-2.5 rounded-sm bg-primary" /> Quoted
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="size-2.5 rounded-sm bg-primary/40" /> Shared words
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="size-2.5 rounded-sm border bg-muted" /> Not covered
+        </span>
+      </div>
+      {focus ? (
+        <div className="flex items-center gap-2">
+          <span className="truncate">
+            Next section focuses on “{focus.label}”
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-6"
+            onClick={() => onFocus(null)}
+          >
+            Clear
+          </Button>
+        </div>
+      ) : (
+        <div className="text-muted-foreground">
+          Click a part to focus the next section on it.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { AlertTriangle, RotateCw, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { ProviderError, type ProviderErrorKind } from '@/lib/llm/errors';
+import type { RetryStatus } from '@/lib/llm/retry';
+
+const TITLES: Record<ProviderErrorKind, string> = {
+  auth: 'Authentication failed',
+  quota: 'Quota exhausted',
+  rate_limit: 'Rate limited',
+  overloaded: 'Provider overloaded',
+  context_length: 'Prompt too long for the model',
+  content_filter: 'Blocked by content filter',
+  network: 'Network error',
+  server: 'Provider error',
+  bad_request: 'Request rejected',
+};
+
+const HINTS: Partial<Record<ProviderErrorKind, string>> = {
+  auth: 'Check the API key in the Model card.',
+  quota: "Check the account's billing or plan with the provider.",
+  rate_limit: 'Wait a moment and retry, or switch to another model.',
+  overloaded: 'The provider is busy; retry in a little while.',
+  context_length:
+    'Turn on long-book mode or pick a model with a larger context window.',
+  content_filter: 'Rephrase the prompt or regenerate with feedback.',
+  network: 'Check your connection and, for local servers, the base URL.',
+};
+
+type ErrorPanelProps = {
+  error: unknown;
+  onRetry: () => void;
+  onDismiss: () => void;
+};
+
+/** Non-blocking notice for a failed generation, with a Retry action. */
+export function ErrorPanel({ error, onRetry, onDismiss }: ErrorPanelProps) {
+  const typed = error instanceof ProviderError ? error : null;
+  const title = typed ? TITLES[typed.kind] : 'Generation failed';
+  const hint = typed && HINTS[typed.kind];
+  const message = error instanceof Error ? error.message : String(error);
+
+  return (
+    <div
+      role="alert"
+      className="flex items-start gap-3 rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm"
+    >
+      <AlertTriangle className="mt-0.5 size-4 shrink-0 text-destructive" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="font-medium">{title}</div>
+        <div className="break-words text-xs text-muted-foreground">
+          {message}
+        </div>
+        {hint && <div className="text-xs">{hint}</div>}
+      </div>
+      <Button variant="outline" size="sm" onClick={onRetry}>
+        <RotateCw /> Retry
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Dismiss"
+        onClick={onDismiss}
+      >
+        <X />
+      </Button>
+    </div>
+  );
+}
+
+/** "Rate limited (OpenAI), retrying in 8s (2/4)". */
+export function retryLabel({ error, attempt, retries, delayMs }: RetryStatus) {
+  return `${TITLES[error.kind]} (${error.provider}), retrying in ${Math.ceil(delayMs / 1000)}s (${attempt}/${retries})`;
+}
@@ -0,0 +1,153 @@
+import { Fragment, type ReactNode, useId } from 'react';
+
+import {
+  type Block,
+  type Inline,
+  parseMarkdown,
+  type TableAlign,
+} from '@/lib/export/markdown';
+import { cn } from '@/lib/utils';
+
+const SAFE_HREF = /^(https?:|mailto:)/i;
+
+type MarkdownViewProps = {
+  markdown: string;
+  className?: string;
+};
+
+/** Footnote ids are prefixed so several views can share the page. */
+type Ids = (number: number) => string;
+
+/** The tree is rebuilt on every render, so position is a stable key. */
+function keyed<T>(items: Array<T>, render: (item: T) => ReactNode) {
+  const out: Array<ReactNode> = [];
+  let position = 0;
+  for (const item of items) {
+    out.push(<Fragment key={position++}>{render(item)}</Fragment>);
+  }
+  return out;
+}
+
+function inline(nodes: Array<Inline>, ids: Ids): Array<ReactNode> {
+  return keyed(nodes, (n) => {
+    switch (n.type) {
+      case 'text':
+        return n.text;
+      case 'code':
+        return <code>{n.text}</code>;
+      case 'break':
+        return <br />;
+      case 'strong':
+        return <strong>{inline(n.children, ids)}</strong>;
+      case 'em':
+        return <em>{inline(n.children, ids)}</em>;
+      case 'footnote':
+        return (
+          <sup>
+            <a href={`#${ids(n.number)}`}>{n.number}</a>
+          </sup>
+        );
+      default:
+        // Only web and mail links survive; anything else becomes its label
+        return SAFE_HREF.test(n.href) ? (
+          <a href={n.href} target="_blank" rel="noreferrer noopener">
+            {inline(n.children, ids)}
+          </a>
+        ) : (
+          inline(n.children, ids)
+        );
+    }
+  });
+}
+
+function blocks(list: Array<Block>, ids: Ids) {
+  return keyed(list, (b) => block(b, ids));
+}
+
+/** A list item holding just one paragraph is shown without the `<p>`. */
+function item(children: Array<Block>, ids: Ids) {
+  const [only] = children;
+  return children.length === 1 && only.type === 'paragraph'
+    ? inline(only.children, ids)
+    : blocks(children, ids);
+}
+
+function row(
+  cells: Array<Array<Inline>>,
+  align: Array<TableAlign>,
+  Cell: 'th' | 'td',
+  ids: Ids,
+) {
+  return (
+    <tr>
+      {keyed(
+        cells.map((cell, i) => ({ cell, textAlign: align[i] ?? undefined })),
+        ({ cell, textAlign }) => (
+          <Cell style={{ textAlign }}>{inline(cell, ids)}</Cell>
+        ),
+      )}
+    </tr>
+  );
+}
+
+function block(b: Block, ids: Ids): ReactNode {
+  switch (b.type) {
+    case 'heading': {
+      const Heading = `h${Math.min(b.level, 6)}` as 'h1';
+      return <Heading>{inline(b.children, ids)}</Heading>;
+    }
+    case 'paragraph':
+      return <p>{inline(b.children, ids)}</p>;
+    case 'blockquote':
+      return <blockquote>{blocks(b.children, ids)}</blockquote>;
+    case 'code':
+      return (
+        <pre>
+          <code>{b.text}</code>
+        </pre>
+      );
+    case 'rule':
+      return <hr />;
+    case 'table':
+      return (
+        <table>
+          <thead>{row(b.header, b.align, 'th', ids)}</thead>
+          <tbody>{keyed(b.rows, (r) => row(r, b.align, 'td', ids))}</tbody>
+        </table>
+      );
+    case 'footnotes':
+      return (
+        <section className="text-xs">
+          <hr />
+          <ol>
+            {keyed(b.items, (f) => (
+              <li id={ids(f.number)}>{item(f.children, ids)}</li>
+            ))}
+          </ol>
+        </section>
+      );
+    default: {
+      const items = keyed(b.items, (it) => <li>{item(it, ids)}</li>);
+      return b.ordered ? <ol start={b.start}>{items}</ol> : <ul>{items}</ul>;
+    }
+  }
+}
+
+/**
+ * Model output rendered as Markdown. The text is parsed to a tree and built
+ * into elements, never injected as HTML, so it can't carry markup or scripts.
+ */
+export function MarkdownView({ markdown, className }: MarkdownViewProps) {
+  const prefix = useId();
+  const ids: Ids = (number) => `${prefix}fn-${number}`;
+  return (
+    <div
+      className={cn(
+        'prose prose-sm dark:prose-invert max-w-none break-words',
+        className,
+      )}
+    >
+      {blocks(parseMarkdown(markdown), ids)}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { Plus, X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  type CompareResult,
+  type CompareTarget,
+  MAX_COMPARE_TARGETS,
+} from '@/lib/distill/compare';
+import { formatCost } from '@/lib/llm/pricing';
+import { getProvider, listProviders } from '@/lib/llm/registry';
+
+import { MarkdownView } from './markdown-view';
+
+type ModelCompareProps = {
+  targets: Array<CompareTarget>;
+  onTargetsChange: (targets: Array<CompareTarget>) => void;
+  /** Columns of the last comparison, until one is accepted or dismissed. */
+  results: Array<CompareResult> | null;
+  running: boolean;
+  /** Another generation is in progress. */
+  disabled: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  onAccept: (index: number) => void;
+  onDismiss: () => void;
+};
+
+const WORDS = /\S+/g;
+
+function stats(result: CompareResult) {
+  const words = result.text.match(WORDS)?.length ?? 0;
+  const parts = [`${words.toLocaleString()} words`];
+  if (result.latencyMs !== undefined) {
+    parts.push(`${(result.latencyMs / 1000).toFixed(1)}s`);
+  }
+  if (result.usage) {
+    parts.push(
+      result.cost === undefined ? 'no price' : formatCost(result.cost),
+    );
+  }
+  return parts.join(' · ');
+}
+
+function TargetRow({
+  target,
+  onChange,
+  onRemove,
+}: {
+  target: CompareTarget;
+  onChange: (target: CompareTarget) => void;
+  onRemove?: () => void;
+}) {
+  const provider = getProvider(target.provider);
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={target.provider}
+        onValueChange={(id) =>
+          onChange({
+            provider: id,
+            model: getProvider(id)?.defaultModel ?? target.model,
+          })
+        }
+      >
+        <SelectTrigger size="sm" className="w-44">
+          <SelectValue placeholder="Provider" />
+        </SelectTrigger>
+        <SelectContent>
+          {listProviders().map((p) => (
+            <SelectItem key={p.id} value={p.id}>
+              {p.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        className="h-8 flex-1"
+        placeholder={`Model (e.g., ${provider?.defaultModel ?? 'gpt-4o-mini'})`}
+        value={target.model}
+        onChange={(e) => onChange({ ...target, model: e.target.value })}
+      />
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-8"
+          aria-label="Remove model"
+          onClick={onRemove}
+        >
+          <X />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function ResultColumn({
+  result,
+  canAccept,
+  onAccept,
+}: {
+  result: CompareResult;
+  canAccept: boolean;
+  onAccept: () => void;
+}) {
+  return (
+    <div className="flex min-w-64 flex-1 flex-col gap-2 rounded-md border p-3">
+      <div className="flex items-center gap-2">
+        <span className="truncate text-sm font-semibold">{result.model}</span>
+        <Badge variant="outline">
+          {getProvider(result.provider)?.label ?? result.provider}
+        </Badge>
+      </div>
+      <div className="text-xs text-muted-foreground tabular-nums">
+        {result.status === 'streaming' ? 'Generating… · ' : ''}
+        {stats(result)}
+      </div>
+      {result.status === 'failed' && (
+        <div className="break-words text-xs text-destructive">
+          {result.error instanceof Error
+            ? result.error.message
+            : String(result.error)}
+        </div>
+      )}
+      <div className="max-h-[50vh] min-h-24 flex-1 overflow-auto">
+        <MarkdownView markdown={result.text} />
+      </div>
+      <Button size="sm" disabled={!canAccept} onClick={onAccept}>
+        Accept this one
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * The next section from two or three provider and model pairs side by side.
+ * Accepting a column adds it to the run; the others are discarded.
+ */
+export function ModelCompare({
+  targets,
+  onTargetsChange,
+  results,
+  running,
+  disabled,
+  onRun,
+  onStop,
+  onAccept,
+  onDismiss,
+}: ModelCompareProps) {
+  const change = (i: number, target: CompareTarget) =>
+    onTargetsChange(targets.map((t, j) => (j === i ? target : t)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Compare models</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="max-w-xl space-y-2">
+          {targets.map((t, i) => (
+            <TargetRow
+              // Rows have no id of their own and only change at the end
+              key={`${i}:${targets.length}`}
+              target={t}
+              onChange={(next) => change(i, next)}
+              onRemove={
+                targets.length > 2
+                  ? () => onTargetsChange(targets.filter((_, j) => j !== i))
+                  : undefined
+              }
+            />
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {targets.length < MAX_COMPARE_TARGETS && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={running}
+              onClick={() =>
+                onTargetsChange([...targets, targets.at(-1) ?? targets[0]])
+              }
+            >
+              <Plus /> Add model
+            </Button>
+          )}
+          {running ? (
+            <Button variant="destructive" size="sm" onClick={onStop}>
+              Stop
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              disabled={disabled || targets.some((t) => !t.model.trim())}
+              onClick={onRun}
+            >
+              Generate next section with each
+            </Button>
+          )}
+          {results && !running && (
+            <Button variant="ghost" size="sm" onClick={onDismiss}>
+              Discard all
+            </Button>
+          )}
+        </div>
+        {results && (
+          <div className="flex gap-4 overflow-x-auto">
+            {results.map((r, i) => (
+              <ResultColumn
+                key={`${r.provider}:${r.model}:${i}`}
+                result={r}
+                canAccept={!running && r.status === 'done' && !!r.text.trim()}
+                onAccept={() => onAccept(i)}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
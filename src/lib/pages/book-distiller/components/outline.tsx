@@ -0,0 +1,135 @@
+import { GripVertical, Merge, Scissors } from 'lucide-react';
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import type { SectionRecord } from '@/lib/db';
+import { splitPoints } from '@/lib/distill/outline';
+import { cn } from '@/lib/utils';
+
+type OutlineProps = {
+  /** Accepted sections, in order. */
+  sections: Array<Pick<SectionRecord, 'id' | 'heading' | 'content'>>;
+  disabled?: boolean;
+  onMove: (from: number, to: number) => void;
+  onMergeWithNext: (id: string) => void;
+  onSplit: (id: string, offset: number) => void;
+};
+
+/**
+ * Numbered headings of the accepted sections. Drag an entry to reorder, merge
+ * it with the one below, or split it at one of its inner headings.
+ */
+export function Outline({
+  sections,
+  disabled,
+  onMove,
+  onMergeWithNext,
+  onSplit,
+}: OutlineProps) {
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [over, setOver] = useState<number | null>(null);
+
+  function drop(to: number) {
+    if (dragging !== null && dragging !== to) {
+      onMove(dragging, to);
+    }
+    setDragging(null);
+    setOver(null);
+  }
+
+  return (
+    <ol className="space-y-1 text-sm">
+      {sections.length === 0 && (
+        <li className="text-muted-foreground">(empty)</li>
+      )}
+      {sections.map((s, i) => {
+        const points = splitPoints(s.content);
+        return (
+          <li
+            key={s.id}
+            draggable={!disabled}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragging(i);
+            }}
+            onDragOver={(e) => {
+              if (dragging !== null) {
+                e.preventDefault();
+                setOver(i);
+              }
+            }}
+            onDragLeave={() => setOver((prev) => (prev === i ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              drop(i);
+            }}
+            onDragEnd={() => {
+              setDragging(null);
+              setOver(null);
+            }}
+            className={cn(
+              'flex items-center gap-2 rounded-md',
+              dragging === i && 'opacity-50',
+              over === i && dragging !== i && 'ring-2 ring-ring',
+            )}
+          >
+            <GripVertical
+              className={cn(
+                'size-4 shrink-0 text-muted-foreground',
+                !disabled && 'cursor-grab',
+              )}
+            />
+            <span className="w-6 h-6 shrink-0 inline-flex items-center justify-center rounded-full bg-foreground text-background text-xs">
+              {i + 1}
+            </span>
+            <span className="flex-1 truncate" title={s.heading}>
+              {s.heading}
+            </span>
+            {points.length > 0 && (
+              <Select
+                value=""
+                disabled={disabled}
+                onValueChange={(v) => onSplit(s.id, Number(v))}
+              >
+                <SelectTrigger
+                  size="sm"
+                  aria-label="Split at heading"
+                  title="Split at heading"
+                  className="h-7 px-1.5 [&>svg:last-child]:hidden"
+                >
+                  <Scissors />
+                </SelectTrigger>
+                <SelectContent>
+                  {points.map((p) => (
+                    <SelectItem key={p.offset} value={String(p.offset)}>
+                      Split before “{p.heading}”
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {i < sections.length - 1 && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                aria-label="Merge with next"
+                title="Merge with next"
+                disabled={disabled}
+                onClick={() => onMergeWithNext(s.id)}
+              >
+                <Merge />
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,253 @@
+import { Copy, Download, Save, Trash2, Upload } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import type { PromptPresetRecord } from '@/lib/db';
+import { TEMPLATE_VARIABLES, unknownVariables } from '@/lib/distill/templates';
+import {
+  createPreset,
+  deletePreset,
+  duplicatePreset,
+  importPresets,
+  listPresets,
+  presetFileJSON,
+  updatePreset,
+} from '@/lib/presets';
+
+type Prompts = { system: string; user: string };
+
+type PromptEditorProps = Prompts & {
+  onSystemChange: (system: string) => void;
+  onUserChange: (user: string) => void;
+  /** Both prompts rendered for the current book and position in the run. */
+  preview: () => Prompts;
+};
+
+function downloadJSON(name: string, json: string) {
+  const url = URL.createObjectURL(
+    new Blob([json], { type: 'application/json' }),
+  );
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** System prompt and user template editor with saved presets and a preview. */
+export function PromptEditor({
+  system,
+  user,
+  onSystemChange,
+  onUserChange,
+  preview,
+}: PromptEditorProps) {
+  const [presets, setPresets] = useState<Array<PromptPresetRecord>>([]);
+  const [presetId, setPresetId] = useState('');
+  const [tab, setTab] = useState('system');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const selected = presets.find((p) => p.id === presetId);
+  const modified =
+    !!selected && (selected.system !== system || selected.user !== user);
+  const unknown = unknownVariables(`${system}\n${user}`);
+  const rendered = tab === 'preview' ? preview() : null;
+
+  async function refresh(select?: string) {
+    setPresets(await listPresets());
+    if (select !== undefined) {
+      setPresetId(select);
+    }
+  }
+
+  useEffect(() => {
+    listPresets().then(setPresets);
+  }, []);
+
+  function load(id: string) {
+    const preset = presets.find((p) => p.id === id);
+    if (preset) {
+      setPresetId(id);
+      onSystemChange(preset.system);
+      onUserChange(preset.user);
+    }
+  }
+
+  async function saveAs() {
+    const name = window.prompt('Preset name', selected?.name ?? '')?.trim();
+    if (name) {
+      const preset = await createPreset({ name, system, user });
+      await refresh(preset.id);
+    }
+  }
+
+  async function save() {
+    if (!selected) {
+      await saveAs();
+      return;
+    }
+    await updatePreset(selected.id, { system, user });
+    await refresh();
+  }
+
+  async function duplicate() {
+    if (selected) {
+      const copy = await duplicatePreset(selected.id);
+      await refresh(copy.id);
+    }
+  }
+
+  async function remove() {
+    if (selected && confirm(`Delete preset "${selected.name}"?`)) {
+      await deletePreset(selected.id);
+      await refresh('');
+    }
+  }
+
+  async function onImport(file: File | null) {
+    if (!file) {
+      return;
+    }
+    try {
+      const added = await importPresets(await file.text());
+      await refresh(added[0]?.id ?? presetId);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <Select value={presetId} onValueChange={load}>
+          <SelectTrigger className="min-w-0 flex-1">
+            <SelectValue
+              placeholder={presets.length ? 'Load a preset' : 'No presets yet'}
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label="Duplicate preset"
+          title="Duplicate"
+          disabled={!selected}
+          onClick={duplicate}
+        >
+          <Copy />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label="Delete preset"
+          title="Delete"
+          disabled={!selected}
+          onClick={remove}
+        >
+          <Trash2 />
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        <Button variant="outline" size="sm" onClick={save}>
+          <Save /> {modified ? 'Save changes' : 'Save'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={saveAs}>
+          Save as…
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileRef.current?.click()}
+        >
+          <Upload /> Import
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!presets.length}
+          onClick={() =>
+            downloadJSON('prompt-presets.json', presetFileJSON(presets))
+          }
+        >
+          <Download /> Export
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            onImport(e.target.files?.[0] || null);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="system">System</TabsTrigger>
+          <TabsTrigger value="user">User message</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        <TabsContent value="system">
+          <Textarea
+            className="h-56"
+            value={system}
+            onChange={(e) => onSystemChange(e.target.value)}
+          />
+        </TabsContent>
+        <TabsContent value="user">
+          <Textarea
+            className="h-56 font-mono text-xs"
+            value={user}
+            onChange={(e) => onUserChange(e.target.value)}
+          />
+        </TabsContent>
+        <TabsContent value="preview">
+          {rendered && (
+            <div className="h-56 space-y-2 overflow-auto rounded-md border p-2 text-xs">
+              <div className="font-medium">System</div>
+              <pre className="whitespace-pre-wrap">{rendered.system}</pre>
+              <div className="font-medium">User</div>
+              <pre className="whitespace-pre-wrap">{rendered.user}</pre>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {unknown.length > 0 && (
+        <div className="text-xs text-destructive">
+          Unknown variable{unknown.length === 1 ? '' : 's'}:{' '}
+          {unknown.map((name) => `{{${name}}}`).join(', ')}
+        </div>
+      )}
+      <div className="text-[11px] text-muted-foreground">
+        Variables:{' '}
+        {TEMPLATE_VARIABLES.map(([name, help], i) => (
+          <span key={name}>
+            {i > 0 && ', '}
+            <code title={help}>{`{{${name}}}`}</code>
+          </span>
+        ))}
+        . The system prompt leaves <code>{'{{book_text}}'}</code> and{' '}
+        <code>{'{{history}}'}</code> unfilled.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { CircleCheck, CircleX, TriangleAlert } from 'lucide-react';
+import { useMemo } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  type QuoteCheck,
+  type QuoteStatus,
+  quoteCounts,
+  verifyQuotes,
+} from '@/lib/distill/quotes';
+import type { TextSpan } from '@/lib/source';
+import { cn } from '@/lib/utils';
+
+const SPACES = /\s+/g;
+
+type QuoteReportProps = {
+  /** The section's Markdown. */
+  content: string;
+  bookText: string;
+  /** Shows where a found quote is in the book. */
+  onLocate?: (span: TextSpan) => void;
+  className?: string;
+};
+
+const STATUS: Record<
+  QuoteStatus,
+  { label: string; icon: typeof CircleCheck; className: string }
+> = {
+  verified: {
+    label: 'verified',
+    icon: CircleCheck,
+    className: 'text-green-600 dark:text-green-400',
+  },
+  near: {
+    label: 'near match',
+    icon: TriangleAlert,
+    className: 'text-amber-600 dark:text-amber-400',
+  },
+  missing: {
+    label: 'not found',
+    icon: CircleX,
+    className: 'text-destructive',
+  },
+};
+
+type QuoteItemProps = {
+  check: QuoteCheck;
+  onLocate?: (span: TextSpan) => void;
+};
+
+function QuoteItem({ check, onLocate }: QuoteItemProps) {
+  const { icon: Icon, label, className } = STATUS[check.status];
+  const { start, end } = check;
+  const quote = `“${check.quote}”`;
+  return (
+    <li className="flex gap-2">
+      <Icon className={cn('mt-0.5 size-3.5 shrink-0', className)} />
+      <div className="min-w-0 space-y-0.5">
+        <div>
+          {onLocate && start !== undefined && end !== undefined ? (
+            <button
+              type="button"
+              className="text-left hover:underline"
+              title="Show in source"
+              onClick={() => onLocate({ start, end })}
+            >
+              {quote}
+            </button>
+          ) : (
+            quote
+          )}{' '}
+          <span className="sr-only">({label})</span>
+        </div>
+        {check.source && (
+          <div className="text-muted-foreground">
+            Book: “{check.source.replace(SPACES, ' ')}”
+          </div>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Counts of a section's quotations found in the book word for word, nearly,
+ * or not at all, with the list of them behind a disclosure.
+ */
+export function QuoteReport({
+  content,
+  bookText,
+  onLocate,
+  className,
+}: QuoteReportProps) {
+  const checks = useMemo(
+    () => (bookText ? verifyQuotes(content, bookText) : []),
+    [content, bookText],
+  );
+  if (!checks.length) {
+    return null;
+  }
+  const counts = quoteCounts(checks);
+
+  return (
+    <details className={cn('text-xs', className)}>
+      <summary className="flex cursor-pointer flex-wrap items-center gap-1 text-muted-foreground">
+        Quotes
+        <Badge variant="outline">{counts.verified} verified</Badge>
+        {counts.near > 0 && (
+          <Badge variant="secondary">{counts.near} near match</Badge>
+        )}
+        {counts.missing > 0 && (
+          <Badge variant="destructive">{counts.missing} not found</Badge>
+        )}
+      </summary>
+      <ul className="mt-2 space-y-2">
+        {checks.map((check) => (
+          <QuoteItem key={check.quote} check={check} onLocate={onLocate} />
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { RunRecord, SectionRecord } from '@/lib/db';
+import { runOutlines } from '@/lib/runs';
+
+type RunCompareProps = {
+  runs: Array<RunRecord>;
+  currentRunId: string;
+  /** Live sections of the current run, so its column tracks edits. */
+  sections: Array<Pick<SectionRecord, 'heading' | 'status' | 'order'>>;
+};
+
+export function RunCompare({ runs, currentRunId, sections }: RunCompareProps) {
+  const [outlines, setOutlines] = useState<Map<string, Array<string>>>(
+    new Map(),
+  );
+  const runIds = runs.map((r) => r.id).join(',');
+
+  useEffect(() => {
+    runOutlines(runIds.split(',').filter((id) => id !== currentRunId)).then(
+      setOutlines,
+    );
+  }, [runIds, currentRunId]);
+
+  const currentOutline = sections
+    .filter((s) => s.status === 'accepted')
+    .sort((a, b) => a.order - b.order)
+    .map((s) => s.heading);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Compare runs</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-4 overflow-x-auto">
+          {runs.map((r) => {
+            const outline =
+              r.id === currentRunId
+                ? currentOutline
+                : (outlines.get(r.id) ?? []);
+            return (
+              <div key={r.id} className="min-w-64 flex-1 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold">{r.name}</span>
+                  {r.id === currentRunId && (
+                    <Badge variant="secondary">current</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {r.provider} · {r.model} · max {r.maxSections} ·{' '}
+                  <code>{r.stopToken}</code>
+                </div>
+                <div
+                  className="text-xs text-muted-foreground line-clamp-2"
+                  title={r.prompt}
+                >
+                  {r.prompt}
+                </div>
+                <ol className="space-y-1 text-sm list-decimal pl-5">
+                  {outline.length === 0 && (
+                    <li className="list-none -ml-5 text-muted-foreground">
+                      (empty)
+                    </li>
+                  )}
+                  {outline.map((heading, i) => (
+                    <li key={`${i}-${heading}`} className="truncate">
+                      {heading}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
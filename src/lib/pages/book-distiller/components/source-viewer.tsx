@@ -0,0 +1,279 @@
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ChapterRecord } from '@/lib/db';
+import {
+  blockAt,
+  highlightPieces,
+  searchText,
+  splitBlocks,
+  type TextSpan,
+} from '@/lib/source';
+import { cn } from '@/lib/utils';
+
+type SourceViewerProps = {
+  text: string;
+  chapters: Array<ChapterRecord>;
+  /** Passage to scroll to and highlight, e.g. where a quote was found. */
+  target: TextSpan | null;
+};
+
+/** Blocks rendered beyond each edge of the viewport. */
+const OVERSCAN = 2;
+/** Height guess for a block not measured yet: ~90 chars per 24px line. */
+const estimateHeight = (span: TextSpan) =>
+  Math.ceil((span.end - span.start) / 90) * 24;
+
+const MARK: Record<string, string> = {
+  match: 'bg-yellow-200 dark:bg-yellow-700/60',
+  current: 'bg-orange-300 dark:bg-orange-600',
+  target: 'bg-primary/20 ring-1 ring-primary',
+};
+
+/** Index of the block at pixel `y`, given each block's top. */
+function indexAtY(tops: Array<number>, y: number) {
+  let lo = 0;
+  let hi = tops.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (tops[mid] <= y) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return Math.max(lo, 0);
+}
+
+/**
+ * The extracted book text in a scroller that only renders the blocks in
+ * view, with search, chapter navigation and a highlighted target passage.
+ */
+export function SourceViewer({ text, chapters, target }: SourceViewerProps) {
+  const blocks = useMemo(
+    () =>
+      splitBlocks(
+        text,
+        undefined,
+        chapters.map((c) => c.start),
+      ),
+    [text, chapters],
+  );
+  const scroller = useRef<HTMLDivElement | null>(null);
+  // Measured heights by block index; estimates stand in until rendered
+  const heights = useRef(new Map<number, number>());
+  const measuredBlocks = useRef(blocks);
+  if (measuredBlocks.current !== blocks) {
+    measuredBlocks.current = blocks;
+    heights.current = new Map();
+  }
+  const [, setMeasured] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewHeight, setViewHeight] = useState(600);
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(0);
+  // Which highlight to bring into view once its block has rendered
+  const pending = useRef<string | null>(null);
+
+  const matches = useMemo(() => searchText(text, query), [text, query]);
+
+  const tops = [0];
+  for (const [i, block] of blocks.entries()) {
+    tops.push(tops[i] + (heights.current.get(i) ?? estimateHeight(block)));
+  }
+  const first = Math.max(0, indexAtY(tops, scrollTop) - OVERSCAN);
+  const last = Math.min(
+    blocks.length - 1,
+    indexAtY(tops, scrollTop + viewHeight) + OVERSCAN,
+  );
+
+  useLayoutEffect(() => {
+    const root = scroller.current;
+    if (!root) {
+      return;
+    }
+    setViewHeight(root.clientHeight);
+    let changed = false;
+    for (const el of root.querySelectorAll<HTMLElement>('[data-block]')) {
+      const i = Number(el.dataset.block);
+      if (heights.current.get(i) !== el.offsetHeight) {
+        heights.current.set(i, el.offsetHeight);
+        changed = true;
+      }
+    }
+    if (changed) {
+      setMeasured((n) => n + 1);
+      return;
+    }
+    const focus = pending.current
+      ? root.querySelector<HTMLElement>(`[data-mark="${pending.current}"]`)
+      : null;
+    if (focus) {
+      pending.current = null;
+      focus.scrollIntoView({ block: 'center' });
+    }
+  });
+
+  /** Scrolls to the block holding `offset`, then to the `mark` highlight. */
+  function scrollTo(offset: number, mark?: string) {
+    const root = scroller.current;
+    if (!root) {
+      return;
+    }
+    pending.current = mark ?? null;
+    root.scrollTop = tops[blockAt(blocks, offset)];
+    setScrollTop(root.scrollTop);
+  }
+
+  // Only a new target should move the view, through the latest scrollTo
+  const scrollToLatest = useRef(scrollTo);
+  scrollToLatest.current = scrollTo;
+  useEffect(() => {
+    if (target) {
+      scrollToLatest.current(target.start, 'target');
+    }
+  }, [target]);
+
+  function showMatch(index: number) {
+    const match = matches[index];
+    if (match) {
+      setCurrent(index);
+      scrollTo(match.start, 'current');
+    }
+  }
+
+  function search(value: string) {
+    setQuery(value);
+    setCurrent(0);
+    const found = searchText(text, value)[0];
+    if (found) {
+      scrollTo(found.start, 'current');
+    }
+  }
+
+  function step(delta: number) {
+    if (matches.length) {
+      showMatch((current + delta + matches.length) % matches.length);
+    }
+  }
+
+  const spans = [
+    ...matches.map((m, i) => ({
+      ...m,
+      key: i === current ? 'current' : 'match',
+    })),
+    ...(target ? [{ ...target, key: 'target' }] : []),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="h-8 max-w-xs"
+          placeholder="Search the text"
+          value={query}
+          onChange={(e) => search(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              step(e.shiftKey ? -1 : 1);
+            }
+          }}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-8"
+          aria-label="Previous match"
+          disabled={!matches.length}
+          onClick={() => step(-1)}
+        >
+          <ChevronUp />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-8"
+          aria-label="Next match"
+          disabled={!matches.length}
+          onClick={() => step(1)}
+        >
+          <ChevronDown />
+        </Button>
+        {query.trim() && (
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {matches.length
+              ? `${current + 1} / ${matches.length}`
+              : 'No matches'}
+          </span>
+        )}
+        {chapters.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(id) => {
+              const chapter = chapters.find((c) => c.id === id);
+              if (chapter) {
+                scrollTo(chapter.start);
+              }
+            }}
+          >
+            <SelectTrigger size="sm" className="ml-auto max-w-64">
+              <SelectValue placeholder="Go to chapter" />
+            </SelectTrigger>
+            <SelectContent>
+              {chapters.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  <span style={{ paddingLeft: `${(c.level - 1) * 0.75}rem` }}>
+                    {c.title}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div
+        ref={scroller}
+        className="h-[60vh] overflow-auto rounded-md border"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="relative" style={{ height: tops[blocks.length] }}>
+          {blocks.slice(first, last + 1).map((block, n) => {
+            const i = first + n;
+            return (
+              <div
+                key={block.start}
+                data-block={i}
+                className="absolute inset-x-0 whitespace-pre-wrap break-words px-3 text-sm leading-6"
+                style={{ top: tops[i] }}
+              >
+                {highlightPieces(text, block, spans).map((piece) =>
+                  piece.key ? (
+                    <mark
+                      key={piece.start}
+                      data-mark={piece.key}
+                      className={cn('rounded-sm text-inherit', MARK[piece.key])}
+                    >
+                      {piece.text}
+                    </mark>
+                  ) : (
+                    piece.text
+                  ),
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
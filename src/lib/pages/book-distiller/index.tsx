@@ -1,9 +1,3 @@
-import Dexie, { type Table } from 'dexie';
-import JSZip from 'jszip';
-// @ts-ignore
-import * as pdfjsLib from 'pdfjs-dist';
-// @ts-ignore - Vite will provide a Worker constructor
-import PdfWorker from 'pdfjs-dist/build/pdf.worker.min.mjs?worker';
 import { useEffect, useMemo, useRef, useState } from 'react';
 
 import { Badge } from '@/components/ui/badge';
@@ -22,227 +16,212 @@ import {
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  type BookRecord,
+  type ChapterRecord,
+  db,
+  type RunRecord,
+  type SectionRecord,
+  type UsageKind,
+} from '@/lib/db';
+import {
+  addCandidate,
+  buildRegenerateUser,
+  editActiveCandidate,
+  selectCandidate,
+} from '@/lib/distill/candidates';
+import {
+  chunkSizeFor,
+  SINGLE_PASS_CHAR_LIMIT,
+  splitIntoChunks,
+} from '@/lib/distill/chunking';
+import {
+  type CompareResult,
+  type CompareTarget,
+  compareModels,
+} from '@/lib/distill/compare';
+import {
+  bookRegions,
+  buildFocusUser,
+  coverageMap,
+  indexRegions,
+} from '@/lib/distill/coverage';
+import {
+  DEFAULT_MAX_SECTIONS,
+  DEFAULT_PROMPT,
+  DEFAULT_STOP_TOKEN,
+  DEFAULT_USER_TEMPLATE,
+} from '@/lib/distill/defaults';
+import {
+  estimateNextSection,
+  exceedsBudget,
+  sumEstimates,
+} from '@/lib/distill/estimate';
+import {
+  buildChunkNotesUser,
+  buildNotesSectionUser,
+  CHUNK_NOTES_SYSTEM,
+  type ChunkNotes,
+  extractChunkRefs,
+  notesWordBudget,
+} from '@/lib/distill/long-book';
+import {
+  makeRoomAfter,
+  mergeSections,
+  moveSection,
+  nextOrder,
+  type OrderChange,
+  parseHeading,
+  splitSection,
+} from '@/lib/distill/outline';
+import {
+  buildConversation,
+  buildFullTextSectionUser,
+  renderSystemPrompt,
+  type SectionContext,
+  sectionVariables,
+} from '@/lib/distill/prompts';
+import {
+  createRunner,
+  dexieRunnerStore,
+  type Runner,
+  type RunnerHooks,
+  type RunnerState,
+} from '@/lib/distill/runner';
+import { elide, renderTemplate } from '@/lib/distill/templates';
+import { buildDocx } from '@/lib/export/docx';
+import { buildEpub } from '@/lib/export/epub';
+import { buildHtmlDocument } from '@/lib/export/html';
+import type { ExportBook } from '@/lib/export/types';
+import { toChapterRecords } from '@/lib/extract/chapters';
+import { extractText, pageProgressLabel } from '@/lib/extract/extract-text';
+import { inferMetadataFromFilename } from '@/lib/extract/filename';
+import { publicationFields, resolveTitleAuthor } from '@/lib/extract/metadata';
+import {
+  commitSections,
+  type HistoryStatus,
+  historyStatus,
+  redo,
+  undo,
+} from '@/lib/history';
+import { formatCost } from '@/lib/llm/pricing';
+import { openaiProvider } from '@/lib/llm/providers/openai';
+import { getProvider, listProviders, missingFields } from '@/lib/llm/registry';
+import { generateWithRetry, type RetryStatus } from '@/lib/llm/retry';
+import {
+  loadProviderSettings,
+  type ProviderSettingsMap,
+  saveProviderSettings,
+} from '@/lib/llm/settings';
+import type { TokenUsage } from '@/lib/llm/types';
+import {
+  createRun,
+  deleteRun,
+  listRuns,
+  setRunBudget,
+  snapshotRunSettings,
+} from '@/lib/runs';
+import type { TextSpan } from '@/lib/source';
+import { type RunSpend, recordUsage, runSpend } from '@/lib/usage';
 
-// @ts-ignore
-pdfjsLib.GlobalWorkerOptions.workerPort = new PdfWorker();
-
-const DEFAULT_STOP_TOKEN = '<end_of_book>';
-
-const DEFAULT_PROMPT = `Your Mission:
-Your mission is to act as an immersive guide to a book I provide. You will embody the author/narrator's voice and generate a series of modular, in-depth sections exploring the book's core themes. The final goal is for me to be able to combine all of your responses into a single, cohesive, and seamlessly flowing document that feels like a standalone analysis written by the author.
-You are not a summarizer; you are a deep-dive analyst and storyteller. Depth, detail, and the generous use of memorable excerpts are far more important than conciseness.
-
-Our Interaction Protocol:
-* To begin, I will provide you with the book content. 
-* You will generate the first section based on the book's most foundational theme.
-* For every subsequent part, I will simply reply with the word: "Next".
-* When you receive "Next", you must autonomously determine the next logical theme based on the book's narrative arc. You will then generate the next complete section according to the structure above, ensuring your introductory paragraph creates a perfect transition from the section you just wrote.
-* IMPORTANT! When all sections have been generated, only output "<end_of_book>" as your response to signal that whole book has been processed.   `;
-
-class BDDatabase extends Dexie {
-  books!: Table<{
-    id: string;
-    name: string;
-    blob?: Blob;
-    text?: string;
-    title?: string;
-    author?: string;
-    createdAt: number;
-  }>;
-  sections!: Table<{
-    id: string;
-    bookId: string;
-    content: string;
-    heading: string;
-    status: 'draft' | 'accepted' | 'discarded';
-    order: number;
-  }>;
-  settings!: Table<{ key: string; value: any }>;
-
-  constructor() {
-    super('book_distiller_db');
-    this.version(1).stores({
-      books: 'id, createdAt',
-      sections: 'id, bookId, order',
-      settings: 'key',
-    });
-  }
-}
+import { CandidatePicker } from './components/candidate-picker';
+import { ChapterList } from './components/chapter-list';
+import { CoverageMap } from './components/coverage-map';
+import { ErrorPanel, retryLabel } from './components/error-panel';
+import { MarkdownView } from './components/markdown-view';
+import { ModelCompare } from './components/model-compare';
+import { Outline } from './components/outline';
+import { PromptEditor } from './components/prompt-editor';
+import { QuoteReport } from './components/quote-report';
+import { RunCompare } from './components/run-compare';
+import { SourceViewer } from './components/source-viewer';
 
-const db = new BDDatabase();
-
-function inferMetadataFromFilename(name = '') {
-  const base = name
-    .replace(/\.[^.]+$/, '')
-    .replace(/[_-]+/g, ' ')
-    .trim();
-  const by = base.split(/\s+by\s+/i);
-  if (by.length === 2) return { title: by[0].trim(), author: by[1].trim() };
-  const parts = base.split(' - ');
-  if (parts.length === 2)
-    return { title: parts[0].trim(), author: parts[1].trim() };
-  return { title: base, author: '' };
-}
+const STATUS_BADGE = {
+  accepted: 'default',
+  discarded: 'destructive',
+  draft: 'secondary',
+} as const satisfies Record<Section['status'], string>;
 
-function parseHeading(md: string) {
-  const m = md.match(/^#\s+(.+)$/m);
-  if (m) return m[1].trim();
-  return (
-    (md.split('\n')[0] || '').replace(/^#+\s*/, '').slice(0, 120) || 'Untitled'
-  );
+/**
+ * Hooks for a runner whose run is no longer shown: it still saves what a
+ * stopped generation streamed, but reports nothing to the page.
+ */
+function muted({ config, provider, prepare }: RunnerHooks): RunnerHooks {
+  return { config, provider, prepare };
 }
 
-async function ensurePersistence() {
-  if ((navigator as any).storage && (navigator as any).storage.persist) {
-    try {
-      await (navigator as any).storage.persist();
-    } catch {}
+/** Why generation is holding, for the Generation card. */
+function runnerNote(state: RunnerState | null) {
+  switch (state?.reason) {
+    case 'interrupted':
+      return 'Generation was interrupted when the page closed. Resume to continue.';
+    case 'stopped':
+      return 'Stopped. Resume to continue.';
+    case 'budget':
+      return "Auto-advance paused: the next section would go over this run's budget.";
+    case 'stop-token':
+      return 'Finished: the last section contains the stop token.';
+    case 'max-sections':
+      return 'Finished: the section limit is reached.';
+    default:
+      return null;
   }
 }
 
-async function extractTextFromEPUB(file: File): Promise<string> {
-  const buf = await file.arrayBuffer();
-  const zip = await JSZip.loadAsync(buf);
-
-  const containerXml = await zip
-    .file('META-INF/container.xml')
-    ?.async('string');
-  if (!containerXml) throw new Error('EPUB: container.xml not found');
-  const cdoc = new DOMParser().parseFromString(containerXml, 'application/xml');
-  const rootfile = cdoc.querySelector('rootfile')?.getAttribute('full-path');
-  if (!rootfile) throw new Error('EPUB: rootfile not found');
-
-  const opfText = await zip.file(rootfile)?.async('string');
-  if (!opfText) throw new Error('EPUB: OPF not found');
-  const opf = new DOMParser().parseFromString(opfText, 'application/xml');
-  const manifest = new Map<string, string>();
-  opf.querySelectorAll('manifest > item').forEach((it) => {
-    const id = it.getAttribute('id') || '';
-    const href = it.getAttribute('href') || '';
-    manifest.set(id, href);
-  });
-  const spineIds: string[] = [];
-  opf.querySelectorAll('spine > itemref').forEach((ir) => {
-    const idref = ir.getAttribute('idref') || '';
-    if (idref) spineIds.push(idref);
-  });
-
-  const basePath = rootfile.split('/').slice(0, -1).join('/');
-  let out = '';
-  for (const id of spineIds) {
-    const href = manifest.get(id);
-    if (!href) continue;
-    const full = basePath ? `${basePath}/${href}` : href;
-    const html = await zip.file(full)?.async('string');
-    if (!html) continue;
-    const doc = new DOMParser().parseFromString(html, 'text/html');
-    const text = (doc.body?.textContent || '')
-      .replace(/\s+\n/g, '\n')
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
-    out += text + '\n\n';
-  }
-  return out.trim();
+/** Pairs last used in Compare models, else the current default and Claude. */
+function loadCompareTargets(): Array<CompareTarget> {
+  const fallback = [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-sonnet-latest' },
+  ];
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem('bd_compare_targets') || '[]',
+    );
+    return Array.isArray(stored) && stored.length >= 2 ? stored : fallback;
+  } catch {
+    return fallback;
+  }
 }
 
-async function extractTextFromPDF(file: File): Promise<string> {
-  const data = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data }).promise;
-  let text = '';
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const content = await page.getTextContent();
-    const pageText = content.items.map((it: any) => it.str).join(' ');
-    text += pageText + '\n\n';
-  }
-  return text.trim();
+/** What to fill in before comparing, for the first target that needs it. */
+function missingCompareSettings(
+  targets: Array<CompareTarget>,
+  settings: ProviderSettingsMap,
+) {
+  for (const target of targets) {
+    const p = getProvider(target.provider);
+    const missing = p ? missingFields(p, settings[p.id]) : [];
+    if (p && missing.length) {
+      return `Fill in ${missing.join(', ')} for ${p.label} (stored locally)`;
+    }
+  }
+  return null;
 }
 
-async function callOpenAI({
-  apiKey,
-  model,
-  system,
-  user,
-}: {
-  apiKey: string;
-  model: string;
-  system: string;
-  user: string;
-}) {
-  const res = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        { role: 'system', content: system },
-        { role: 'user', content: user },
-      ],
-      temperature: 0.7,
-    }),
-  });
-  if (!res.ok) throw new Error(`OpenAI error ${res.status}`);
-  const data = await res.json();
-  return data.choices?.[0]?.message?.content || '';
-}
+type Section = Omit<SectionRecord, 'bookId' | 'runId'>;
+type SectionEdit = {
+  id: string;
+  before: Section | null;
+  after: Section | null;
+};
 
-async function callAnthropic({
-  apiKey,
-  model,
-  system,
-  user,
-}: {
-  apiKey: string;
-  model: string;
-  system: string;
-  user: string;
-}) {
-  const res = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      system,
-      messages: [{ role: 'user', content: [{ type: 'text', text: user }] }],
-      max_tokens: 2000,
-      temperature: 0.7,
-    }),
-  });
-  if (!res.ok) throw new Error(`Anthropic error ${res.status}`);
-  const data = await res.json();
-  return (data.content || []).map((p: any) => p.text).join('\n');
+/** An edit to an existing section; its heading follows the content. */
+function changed(before: Section, update: Partial<Section>): SectionEdit {
+  const after = { ...before, ...update };
+  return {
+    id: before.id,
+    before,
+    after: { ...after, heading: parseHeading(after.content) },
+  };
 }
 
-async function callGemini({
-  apiKey,
-  model,
-  system,
-  user,
-}: {
-  apiKey: string;
-  model: string;
-  system: string;
-  user: string;
-}) {
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(apiKey)}`;
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      contents: [{ role: 'user', parts: [{ text: system + '\n\n' + user }] }],
-    }),
-  });
-  if (!res.ok) throw new Error(`Gemini error ${res.status}`);
-  const data = await res.json();
-  const parts = data.candidates?.[0]?.content?.parts || [];
-  return parts.map((p: any) => p.text).join('\n');
+async function ensurePersistence() {
+  if ((navigator as any).storage && (navigator as any).storage.persist) {
+    try {
+      await (navigator as any).storage.persist();
+    } catch {}
+  }
 }
 
 export default function BookDistiller() {
@@ -250,10 +229,17 @@ export default function BookDistiller() {
   const [title, setTitle] = useState('');
   const [author, setAuthor] = useState('');
   const [bookText, setBookText] = useState('');
+  const [chapters, setChapters] = useState<Array<ChapterRecord>>([]);
+  const [publication, setPublication] = useState<
+    Pick<BookRecord, 'language' | 'publisher' | 'publishedDate'>
+  >({});
 
   const [prompt, setPrompt] = useState(
     () => localStorage.getItem('bd_prompt') || DEFAULT_PROMPT,
   );
+  const [userTemplate, setUserTemplate] = useState(
+    () => localStorage.getItem('bd_user_template') || DEFAULT_USER_TEMPLATE,
+  );
 
   const [provider, setProvider] = useState(
     () => localStorage.getItem('bd_provider') || 'openai',
@@ -262,39 +248,21 @@ export default function BookDistiller() {
     () => localStorage.getItem('bd_model') || 'gpt-4o-mini',
   );
 
-  // Initialize API keys per provider
-  const getApiKeys = () => {
-    try {
-      const stored = localStorage.getItem('bd_apiKeys');
-      if (stored) {
-        return JSON.parse(stored);
-      }
+  const [providerSettings, setProviderSettings] =
+    useState<ProviderSettingsMap>(loadProviderSettings);
+  const llm = getProvider(provider) ?? openaiProvider;
+  const currentSettings = providerSettings[llm.id] || {};
 
-      // Migration: if old single API key exists, migrate it to the new structure
-      const oldApiKey = localStorage.getItem('bd_apiKey');
-      if (oldApiKey) {
-        const migrated = { openai: oldApiKey }; // Default to openai for old keys
-        localStorage.removeItem('bd_apiKey'); // Clean up old key
-        return migrated;
-      }
-
-      return {};
-    } catch {
-      return {};
-    }
-  };
-
-  const [apiKeys, setApiKeys] = useState<Record<string, string>>(getApiKeys);
-  const currentApiKey = apiKeys[provider] || '';
-
-  const setCurrentApiKey = (key: string) => {
-    const newKeys = { ...apiKeys, [provider]: key };
-    setApiKeys(newKeys);
+  const setProviderField = (key: string, value: string) => {
+    setProviderSettings((prev) => ({
+      ...prev,
+      [llm.id]: { ...prev[llm.id], [key]: value },
+    }));
   };
 
   useEffect(() => {
-    localStorage.setItem('bd_apiKeys', JSON.stringify(apiKeys));
-  }, [apiKeys]);
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
   useEffect(() => {
     localStorage.setItem('bd_provider', provider);
   }, [provider]);
@@ -304,22 +272,144 @@ export default function BookDistiller() {
   useEffect(() => {
     localStorage.setItem('bd_prompt', prompt);
   }, [prompt]);
+  useEffect(() => {
+    localStorage.setItem('bd_user_template', userTemplate);
+  }, [userTemplate]);
 
   const [autoAdvance, setAutoAdvance] = useState(false);
-  const [maxSections, setMaxSections] = useState(12);
+  const [maxSections, setMaxSections] = useState(DEFAULT_MAX_SECTIONS);
   const [stopToken, setStopToken] = useState(DEFAULT_STOP_TOKEN);
   const [isBusy, setIsBusy] = useState(false);
-  const [shouldStop, setShouldStop] = useState(false);
-
-  const [sections, setSections] = useState<
-    {
-      id: string;
-      content: string;
-      heading: string;
-      status: 'draft' | 'accepted' | 'discarded';
-      order: number;
-    }[]
-  >([]);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [longBookMode, setLongBookMode] = useState(false);
+  // Send the sections so far as a real conversation instead of pasting them
+  const [conversationMode, setConversationMode] = useState(
+    () => localStorage.getItem('bd_conversation') === 'true',
+  );
+  useEffect(() => {
+    localStorage.setItem('bd_conversation', String(conversationMode));
+  }, [conversationMode]);
+  const [notesProgress, setNotesProgress] = useState<string | null>(null);
+  const [extractProgress, setExtractProgress] = useState<string | null>(null);
+
+  const [runs, setRuns] = useState<Array<RunRecord>>([]);
+  const [runId, setRunId] = useState('');
+  const [comparing, setComparing] = useState(false);
+  // Compare models: the pairs to try and their answers for the next section
+  const [showModelCompare, setShowModelCompare] = useState(false);
+  const [compareTargets, setCompareTargets] =
+    useState<Array<CompareTarget>>(loadCompareTargets);
+  const [compareResults, setCompareResults] =
+    useState<Array<CompareResult> | null>(null);
+  const [compareRunning, setCompareRunning] = useState(false);
+  useEffect(() => {
+    localStorage.setItem('bd_compare_targets', JSON.stringify(compareTargets));
+  }, [compareTargets]);
+  // Source panel and the passage it should show, e.g. a clicked quote
+  const [showSource, setShowSource] = useState(false);
+  const [sourceTarget, setSourceTarget] = useState<TextSpan | null>(null);
+  const sourceRef = useRef<HTMLDivElement | null>(null);
+  // Start of the book region the next section should focus on
+  const [focusStart, setFocusStart] = useState<number | null>(null);
+  const [spend, setSpend] = useState<RunSpend | null>(null);
+  // Last failed generation, shown in the error panel with a way to retry it
+  const [problem, setProblem] = useState<{
+    error: unknown;
+    retry: () => void;
+  } | null>(null);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
+  const onRetry = (status: RetryStatus) => setRetryStatus(retryLabel(status));
+  // Chunk indexes that already have notes at the current chunk size
+  const [notedChunks, setNotedChunks] = useState<Set<number>>(new Set());
+  // Per-draft regenerate instruction, keyed by section id
+  const [feedback, setFeedback] = useState<Record<string, string>>({});
+  // Sections open in the Markdown editor; the rest show the rendered preview
+  const [editing, setEditing] = useState<Record<string, boolean>>({});
+  // Caret position in each section's editor, for "Split at cursor"
+  const [cursor, setCursor] = useState<Record<string, number>>({});
+  const runSettings = () => ({
+    prompt,
+    userTemplate,
+    provider,
+    model,
+    stopToken,
+    maxSections,
+  });
+
+  /** Makes `run` current: restores its settings snapshot and sections. */
+  async function switchRun(run: RunRecord) {
+    setRunId(run.id);
+    setPrompt(run.prompt);
+    setUserTemplate(run.userTemplate ?? DEFAULT_USER_TEMPLATE);
+    setProvider(run.provider);
+    setModel(run.model);
+    setStopToken(run.stopToken);
+    setMaxSections(run.maxSections);
+    setSections(await db.sections.where({ runId: run.id }).sortBy('order'));
+    await db.settings.put({ key: 'last_run_id', value: run.id });
+  }
+
+  async function newRun() {
+    if (!bookId) {
+      return;
+    }
+    const run = await createRun(bookId, runSettings());
+    setRuns((prev) => [...prev, run]);
+    await switchRun(run);
+  }
+
+  async function removeRun() {
+    const run = runs.find((r) => r.id === runId);
+    if (!run || runs.length < 2) {
+      return;
+    }
+    if (!confirm(`Delete ${run.name} and its sections?`)) {
+      return;
+    }
+    await deleteRun(run.id);
+    const rest = runs.filter((r) => r.id !== run.id);
+    setRuns(rest);
+    await switchRun(rest[rest.length - 1]);
+  }
+
+  const currentRun = runs.find((r) => r.id === runId);
+
+  function changeBudget(value: string) {
+    const budget = value === '' ? undefined : Math.max(Number(value), 0);
+    setRuns((prev) => prev.map((r) => (r.id === runId ? { ...r, budget } : r)));
+    setRunBudget(runId, budget);
+  }
+
+  useEffect(() => {
+    if (runId) {
+      runSpend(runId).then(setSpend);
+    }
+  }, [runId]);
+
+  /** Logs a call's reported usage against the current run. */
+  const trackUsage =
+    (kind: UsageKind, target: CompareTarget = { provider: llm.id, model }) =>
+    (usage: TokenUsage) => {
+      recordUsage({ bookId, runId, kind, ...target, ...usage }).then(
+        refreshSpend,
+        (error: unknown) =>
+          setProblem({ error, retry: () => trackUsage(kind, target)(usage) }),
+      );
+    };
+
+  function refreshSpend() {
+    runSpend(runId)
+      .then(setSpend)
+      .catch((error: unknown) => setProblem({ error, retry: refreshSpend }));
+  }
+
+  const [sections, setSections] = useState<Array<Section>>([]);
+  // What undo and redo would do next, for the buttons
+  const [history, setHistory] = useState<HistoryStatus>({
+    undo: null,
+    redo: null,
+  });
   const accepted = useMemo(
     () =>
       sections
@@ -351,11 +441,24 @@ export default function BookDistiller() {
           setBookId(b.id);
           setTitle(b.title || '');
           setAuthor(b.author || '');
+          setPublication({
+            language: b.language,
+            publisher: b.publisher,
+            publishedDate: b.publishedDate,
+          });
           setBookText(b.text || '');
-          const secs = await db.sections
-            .where({ bookId: b.id })
-            .sortBy('order');
-          setSections(secs);
+          setChapters(
+            await db.chapters.where({ bookId: b.id }).sortBy('index'),
+          );
+          setLongBookMode((b.text || '').length > SINGLE_PASS_CHAR_LIMIT);
+          const bookRuns = await listRuns(b.id);
+          const lastRun = await db.settings.get('last_run_id');
+          const run =
+            bookRuns.find((r) => r.id === lastRun?.value) ??
+            bookRuns.at(-1) ??
+            (await createRun(b.id, runSettings()));
+          setRuns(bookRuns.length ? bookRuns : [run]);
+          await switchRun(run);
         }
       }
     })();
@@ -378,211 +481,733 @@ export default function BookDistiller() {
     setBookId(id);
     setTitle(meta.title);
     setAuthor(meta.author);
+    setPublication({});
+    setChapters([]);
+    const run = await createRun(id, runSettings());
+    setRuns([run]);
+    setRunId(run.id);
+    setSections([]);
+    await db.settings.put({ key: 'last_run_id', value: run.id });
 
     try {
-      let text = '';
-      const ext = (f.name.split('.').pop() || '').toLowerCase();
-      if (ext === 'pdf') text = await extractTextFromPDF(f);
-      else if (ext === 'epub') text = await extractTextFromEPUB(f);
-      else if (['txt', 'md', 'markdown'].includes(ext)) text = await f.text();
-      else throw new Error('Unsupported file type (use PDF/EPUB/TXT/MD)');
+      const {
+        text,
+        metadata,
+        chapters: found,
+      } = await extractText(f, f.name, (p) =>
+        setExtractProgress(pageProgressLabel(p)),
+      );
+      // Embedded metadata wins; the filename guess is only a fallback
+      const resolved = resolveTitleAuthor(metadata, f.name);
+      const publication = publicationFields(metadata);
 
       setBookText(text);
-      await db.books.update(id, { text });
+      setTitle(resolved.title);
+      setAuthor(resolved.author);
+      setPublication(publication);
+      setLongBookMode(text.length > SINGLE_PASS_CHAR_LIMIT);
+      await db.books.update(id, { text, ...resolved, ...publication });
+      const chapterRecords = toChapterRecords(id, found, text.length);
+      setChapters(chapterRecords);
+      await db.chapters.bulkPut(chapterRecords);
     } catch (e: any) {
       alert(e?.message || String(e));
+    } finally {
+      setExtractProgress(null);
     }
   }
 
-  function clearRun() {
-    if (!bookId) return;
-    setSections([]);
-    db.sections.where({ bookId }).delete();
+  /**
+   * Applies section edits locally and saves them as one undoable step; edits
+   * sharing a `coalesce` key in quick succession undo together.
+   */
+  function changeSections(
+    label: string,
+    changes: Array<SectionEdit>,
+    coalesce?: string,
+  ) {
+    if (!(bookId && runId && changes.length)) {
+      return Promise.resolve();
+    }
+    const afters = new Map(
+      changes.flatMap((c) => (c.after ? [[c.id, c.after] as const] : [])),
+    );
+    setSections((prev) => {
+      const kept = prev
+        .filter((s) => !changes.some((c) => c.id === s.id && !c.after))
+        .map((s) => afters.get(s.id) ?? s);
+      const added = [...afters.values()].filter(
+        (a) => !prev.some((s) => s.id === a.id),
+      );
+      return [...kept, ...added].sort((a, b) => a.order - b.order);
+    });
+    const record = (s: Section | null) => s && { ...s, bookId, runId };
+    return commitSections(
+      { bookId, runId },
+      label,
+      changes.map((c) => ({
+        id: c.id,
+        before: record(c.before),
+        after: record(c.after),
+      })),
+      coalesce,
+    )
+      .then(() => historyStatus(runId))
+      .then(setHistory);
   }
 
-  function undoLast() {
-    if (!bookId) return;
-    setSections((prev) => {
-      const i = [...prev].reverse().findIndex((s) => s.status === 'accepted');
-      if (i === -1) return prev;
-      const idx = prev.length - 1 - i;
-      const copy = [...prev];
-      const popped = copy.splice(idx, 1)[0];
-      db.sections.delete(popped.id);
-      return copy;
+  function updateSection(
+    label: string,
+    id: string,
+    update: Partial<Section>,
+    coalesce?: string,
+  ) {
+    const target = sections.find((s) => s.id === id);
+    return target
+      ? changeSections(label, [changed(target, update)], coalesce)
+      : Promise.resolve();
+  }
+
+  /** Order changes as section edits. */
+  function reordered(orders: Array<OrderChange>) {
+    return orders.flatMap(({ id, order }) => {
+      const before = sections.find((s) => s.id === id);
+      return before ? [changed(before, { order })] : [];
     });
   }
 
-  function updateSectionLocal(upd: {
-    id: string;
-    content?: string;
-    heading?: string;
-    status?: 'draft' | 'accepted' | 'discarded';
-  }) {
-    setSections((prev) =>
-      prev.map((s) =>
-        s.id === upd.id
-          ? {
-              ...s,
-              ...upd,
-              heading: upd.heading ?? parseHeading(upd.content ?? s.content),
-            }
-          : s,
+  async function reloadSections() {
+    setSections(await db.sections.where({ runId }).sortBy('order'));
+    setHistory(await historyStatus(runId));
+  }
+
+  async function undoStep() {
+    if (runId && !isBusy && (await undo(runId))) {
+      await reloadSections();
+    }
+  }
+
+  async function redoStep() {
+    if (runId && !isBusy && (await redo(runId))) {
+      await reloadSections();
+    }
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z outside text fields, which keep their own undo
+  const historyKeys = useRef<(e: KeyboardEvent) => void>(() => undefined);
+  historyKeys.current = (e) => {
+    const target = e.target as HTMLElement | null;
+    if (
+      !(e.ctrlKey || e.metaKey) ||
+      e.key.toLowerCase() !== 'z' ||
+      target?.closest('input, textarea, [contenteditable="true"]')
+    ) {
+      return;
+    }
+    e.preventDefault();
+    if (e.shiftKey) {
+      redoStep();
+    } else {
+      undoStep();
+    }
+  };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => historyKeys.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (runId) {
+      historyStatus(runId).then(setHistory);
+    }
+  }, [runId]);
+
+  /** Opens the Source panel at a passage of the book. */
+  function locateInSource(span: TextSpan) {
+    setShowSource(true);
+    setSourceTarget(span);
+  }
+
+  useEffect(() => {
+    if (sourceTarget) {
+      sourceRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [sourceTarget]);
+
+  function clearRun() {
+    runnerRef.current?.reset();
+    changeSections(
+      'Clear run',
+      sections.map((s) => ({ id: s.id, before: s, after: null })),
+    );
+  }
+
+  function deleteSection(id: string) {
+    const target = sections.find((s) => s.id === id);
+    if (target) {
+      changeSections('Delete', [{ id, before: target, after: null }]);
+    }
+  }
+
+  const chunkRanges = useMemo(
+    () => (longBookMode ? splitIntoChunks(bookText, chunkSizeFor(model)) : []),
+    [longBookMode, bookText, model],
+  );
+
+  const regionIndex = useMemo(
+    () => indexRegions(bookText, bookRegions(bookText.length, chapters)),
+    [bookText, chapters],
+  );
+  const coverage = useMemo(
+    () =>
+      coverageMap(
+        regionIndex,
+        accepted.map((s) => ({
+          id: s.id,
+          content: s.content,
+          spans: (s.chunks ?? []).flatMap((n) => chunkRanges[n - 1] ?? []),
+        })),
       ),
+    [regionIndex, accepted, chunkRanges],
+  );
+  const focusRegion =
+    regionIndex.regions.find((r) => r.start === focusStart) ?? null;
+
+  useEffect(() => {
+    if (!(longBookMode && bookId)) {
+      return;
+    }
+    const size = chunkSizeFor(model);
+    db.chunks
+      .where({ bookId })
+      .toArray()
+      .then((rows) =>
+        setNotedChunks(
+          new Set(rows.filter((r) => r.size === size).map((r) => r.index)),
+        ),
+      );
+  }, [longBookMode, bookId, model]);
+
+  const bookInfo = useMemo(
+    () => ({ title, author, chapters }),
+    [title, author, chapters],
+  );
+
+  /** Map step: reading notes for every chunk, cached in Dexie per chunk size. */
+  async function ensureChunkNotes(signal: AbortSignal) {
+    const size = chunkSizeFor(model);
+    const wordBudget = notesWordBudget(model, chunkRanges.length);
+    const notes: Array<ChunkNotes> = [];
+    for (const chunk of chunkRanges) {
+      const chunkId = `${bookId}:${size}:${chunk.index}`;
+      const cached = await db.chunks.get(chunkId);
+      if (cached) {
+        notes.push(cached);
+        continue;
+      }
+      setNotesProgress(
+        `Reading chunk ${chunk.index + 1} of ${chunkRanges.length}…`,
+      );
+      const text = await generateWithRetry(
+        llm,
+        {
+          model,
+          system: CHUNK_NOTES_SYSTEM,
+          user: buildChunkNotesUser(
+            bookInfo,
+            chunk,
+            chunkRanges.length,
+            wordBudget,
+          ),
+          settings: currentSettings,
+          signal,
+          onUsage: trackUsage('notes'),
+        },
+        { onRetry },
+      );
+      await db.chunks.put({
+        id: chunkId,
+        bookId,
+        size,
+        index: chunk.index,
+        start: chunk.start,
+        end: chunk.end,
+        notes: text.trim(),
+      });
+      notes.push({ notes: text.trim(), start: chunk.start, end: chunk.end });
+      setNotedChunks((prev) => new Set(prev).add(chunk.index));
+    }
+    return notes;
+  }
+
+  const sectionContext = (
+    history: string,
+    acceptedCount: number,
+  ): SectionContext => ({
+    history,
+    stopToken,
+    sectionNumber: acceptedCount + 1,
+  });
+
+  /** The user message carrying the book, or its notes in long-book mode. */
+  async function bookMessage(context: SectionContext, signal: AbortSignal) {
+    if (longBookMode) {
+      const notes = await ensureChunkNotes(signal).finally(() =>
+        setNotesProgress(null),
+      );
+      return buildNotesSectionUser(userTemplate, bookInfo, notes, context);
+    }
+    return buildFullTextSectionUser(userTemplate, bookInfo, bookText, context);
+  }
+
+  /**
+   * System prompt and messages for the section after `previous`: one message
+   * with the book and the accepted sections pasted in, or in conversation mode
+   * the book once followed by the sections as earlier turns.
+   */
+  async function buildSectionMessages(
+    previous: Array<{ content: string }>,
+    signal: AbortSignal,
+  ) {
+    const context = sectionContext(
+      previous.map((s) => s.content).join('\n\n'),
+      previous.length,
     );
-    db.sections.update(upd.id, upd);
+    const system = renderSystemPrompt(prompt, bookInfo, context);
+    if (conversationMode) {
+      const first = await bookMessage(sectionContext('', 0), signal);
+      return {
+        system,
+        ...buildConversation(
+          first,
+          previous.map((s) => s.content),
+        ),
+      };
+    }
+    return { system, user: await bookMessage(context, signal) };
   }
 
-  async function generateNext(acceptedOverride?: typeof accepted) {
-    if (!bookId) {
+  /** The messages for the next section, steered to the focus region if set. */
+  async function nextSectionMessages(
+    previous: Array<{ content: string }>,
+    signal: AbortSignal,
+  ) {
+    const messages = await buildSectionMessages(previous, signal);
+    return focusRegion
+      ? {
+          ...messages,
+          user: buildFocusUser(messages.user, focusRegion, bookText),
+        }
+      : messages;
+  }
+
+  /** Both prompts for the next section, with long inputs shortened. */
+  function previewPrompts() {
+    const context = sectionContext(elide(stitched, 1500), accepted.length);
+    const excerpt = longBookMode
+      ? `[Reading notes for ${chunkRanges.length} chunks]`
+      : elide(bookText, 1500);
+    return {
+      system: renderSystemPrompt(prompt, bookInfo, context),
+      user: renderTemplate(
+        userTemplate,
+        sectionVariables(bookInfo, excerpt, context),
+      ),
+    };
+  }
+
+  /** Pre-flight tokens and cost of generating the section after `history`. */
+  function estimateNext(
+    history: string,
+    acceptedCount: number,
+    withModel = model,
+  ) {
+    return estimateNextSection({
+      model: withModel,
+      prompt,
+      userTemplate,
+      info: bookInfo,
+      bookText,
+      stopToken,
+      history,
+      acceptedCount,
+      chunks: longBookMode ? chunkRanges : undefined,
+      notedChunks,
+    });
+  }
+
+  /**
+   * Whether the next section fits in what is left of the run's budget, when
+   * generated once with each of `models` (a comparison makes one call each).
+   */
+  async function budgetAllows(
+    acceptedList: Array<{ content: string }>,
+    models = [model],
+  ) {
+    const run = await db.runs.get(runId);
+    const history = acceptedList.map((s) => s.content).join('\n\n');
+    const estimate = sumEstimates(
+      models.map((m) => estimateNext(history, acceptedList.length, m)),
+    );
+    const { cost } = await runSpend(runId);
+    return !exceedsBudget(run?.budget, cost, estimate);
+  }
+
+  async function requestNext() {
+    if (
+      runId &&
+      !(await budgetAllows(accepted)) &&
+      !confirm(
+        "The next section is estimated to go over this run's budget. Generate it anyway?",
+      )
+    ) {
+      return;
+    }
+    generateNext();
+  }
+
+  /** False, after telling the user, while the provider lacks a required field. */
+  function providerReady() {
+    const missing = missingFields(llm, currentSettings);
+    if (missing.length) {
+      alert(`Fill in ${missing.join(', ')} for ${llm.label} (stored locally)`);
+    }
+    return !missing.length;
+  }
+
+  function generateNext() {
+    if (!(bookId && runId)) {
       alert('Upload a book first');
       return;
     }
-    if (!currentApiKey) {
-      alert('Paste your API key (stored locally)');
+    if (!providerReady()) {
+      return;
+    }
+    setProblem(null);
+    runnerRef.current?.next();
+  }
+
+  const hooks: RunnerHooks = {
+    config: {
+      auto: autoAdvance,
+      stopToken,
+      maxSections,
+      chunkRefs: longBookMode,
+    },
+    provider: llm,
+    prepare: async (previous, signal) => ({
+      model,
+      settings: currentSettings,
+      onUsage: trackUsage('section'),
+      ...(await nextSectionMessages(previous, signal)),
+    }),
+    withinBudget: budgetAllows,
+    onRetry,
+    onState: (state) => {
+      const generating = state.status === 'generating';
+      setRunnerState(state);
+      setIsBusy(generating);
+      setStreamingId(generating ? (state.sectionId ?? null) : null);
+      if (!generating) {
+        setRetryStatus(null);
+        // Sections the runner saved are undoable steps
+        historyStatus(runId).then(setHistory);
+      }
+    },
+    onSection: (section) => {
+      if (section.runId !== runId) {
+        return;
+      }
+      setSections((prev) =>
+        prev.some((s) => s.id === section.id)
+          ? prev.map((s) => (s.id === section.id ? section : s))
+          : [...prev, section],
+      );
+    },
+    onDropped: (id) => setSections((prev) => prev.filter((s) => s.id !== id)),
+    onSaved: async () => {
+      setFocusStart(null);
+      const snapshot = runSettings();
+      if (await snapshotRunSettings(runId, snapshot)) {
+        setRuns((prev) =>
+          prev.map((r) => (r.id === runId ? { ...r, ...snapshot } : r)),
+        );
+      }
+    },
+    // Shown in the panel instead of alert() so a failure mid-run can be
+    // retried, which also resumes auto-advance
+    onError: (error) => setProblem({ error, retry: generateNext }),
+  };
+  // The runner calls back into the latest render (see historyKeys)
+  const runnerHooks = useRef(hooks);
+  runnerHooks.current = hooks;
+
+  const runnerRef = useRef<Runner | null>(null);
+  const [runnerState, setRunnerState] = useState<RunnerState | null>(null);
+  useEffect(() => {
+    if (!(bookId && runId)) {
+      return;
+    }
+    let shown = true;
+    const runner = createRunner({ bookId, runId }, dexieRunnerStore, () =>
+      shown ? runnerHooks.current : muted(runnerHooks.current),
+    );
+    runnerRef.current = runner;
+    // A generation of the previous run no longer reports its end here
+    setRunnerState(null);
+    setIsBusy(false);
+    setStreamingId(null);
+    const restore = () =>
+      runner.restore().catch((error: unknown) => {
+        if (shown) {
+          setProblem({ error, retry: restore });
+        }
+      });
+    restore();
+    return () => {
+      shown = false;
+      runner.stop();
+      runnerRef.current = null;
+    };
+  }, [bookId, runId]);
+
+  function stopProcess() {
+    runnerRef.current?.stop();
+    abortRef.current?.abort();
+  }
+
+  async function accept(id: string) {
+    await updateSection('Accept', id, { status: 'accepted' });
+    // With auto-advance on, the runner continues from the saved sections
+    runnerRef.current?.reviewed();
+  }
+
+  /** Generates another candidate for a draft, optionally steered by feedback. */
+  async function regenerate(id: string, instruction: string) {
+    const target = sections.find((s) => s.id === id);
+    if (!(target && bookId && runId)) {
       return;
     }
-    if (shouldStop) {
-      console.info('Generation stopped by user');
-      setShouldStop(false);
+    if (!providerReady()) {
       return;
     }
+    setProblem(null);
     setIsBusy(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreamingId(id);
+    let streamed = '';
+    const show = (content: string) =>
+      setSections((prev) =>
+        prev.map((s) =>
+          s.id === id ? { ...s, content, heading: parseHeading(content) } : s,
+        ),
+      );
+    // Saved as an undoable step, so undoing an earlier one keeps the candidate
+    const saveCandidate = (text: string) => {
+      const refs = extractChunkRefs(text);
+      const chunks = longBookMode ? refs.chunks : undefined;
+      return updateSection(
+        'Regenerate',
+        id,
+        addCandidate(target, { content: refs.content, instruction, chunks }),
+      );
+    };
+
     try {
-      const history = (acceptedOverride ?? accepted)
-        .map((s) => s.content)
-        .join('\n\n');
-      const system = prompt;
-      const user = `Book Title: ${title || '(unknown)'}\nAuthor: ${author || '(unknown)'}\n\nFull book text (or extract):\n${bookText.slice(0, 100000)}\n\nPreviously accepted sections (for continuity):\n${history}\n\nGenerate the next section according to the protocol above. Then end if appropriate with the stop token: ${stopToken}`;
-
-      let text = '';
-      if (provider === 'openai')
-        text = await callOpenAI({ apiKey: currentApiKey, model, system, user });
-      else if (provider === 'anthropic')
-        text = await callAnthropic({
-          apiKey: currentApiKey,
+      const { user, ...messages } = await buildSectionMessages(
+        accepted.filter((s) => s.order < target.order),
+        controller.signal,
+      );
+      const text = await generateWithRetry(
+        llm,
+        {
           model,
-          system,
-          user,
-        });
-      else if (provider === 'google')
-        text = await callGemini({ apiKey: currentApiKey, model, system, user });
-      else throw new Error('Unsupported provider');
-
-      const id = crypto.randomUUID();
-      const order = sections.length + 1;
-      const isFirstSection = sections.length === 0;
-      
-      // Auto-accept sections when auto-advance is enabled and it's not the first section
-      const sectionStatus = (autoAdvance && !isFirstSection) ? 'accepted' as const : 'draft' as const;
-      
-      const section = {
-        id,
-        bookId,
-        content: text.trim(),
-        heading: parseHeading(text),
-        status: sectionStatus,
-        order,
-      };
-      setSections((prev) => [...prev, section]);
-      await db.sections.put(section);
-
-      // If auto-advance is enabled and this is not the first section, continue generating
-      if (autoAdvance && !isFirstSection && !shouldStop) {
-        // Check if we should continue (no stop token and under max sections)
-        const hasStopToken = text.trim().includes(stopToken);
-        
-        // Get current accepted count from database (more reliable than state)
-        setTimeout(async () => {
-          if (shouldStop) return;
-          
-          const currentSections = await db.sections
-            .where({ bookId })
-            .sortBy('order');
-          const acceptedCount = currentSections.filter(s => s.status === 'accepted').length;
-          
-          console.info('Auto-advance check:', {
-            hasStopToken,
-            acceptedCount,
-            maxSections,
-            shouldContinue: !hasStopToken && acceptedCount < maxSections
-          });
-          
-          if (!hasStopToken && acceptedCount < maxSections) {
-            console.info('Auto-advancing to next section...');
-            generateNext();
-          } else {
-            console.info('Auto-advance stopped:', {
-              hasStopToken,
-              reachedMax: acceptedCount >= maxSections
-            });
-          }
-        }, 500);
+          ...messages,
+          user: buildRegenerateUser(user, target.content, instruction),
+          settings: currentSettings,
+          signal: controller.signal,
+          onToken: (delta) => {
+            streamed += delta;
+            show(streamed);
+          },
+          onUsage: trackUsage('regenerate'),
+        },
+        { onRetry },
+      );
+      await saveCandidate(text);
+      setFeedback((prev) => ({ ...prev, [id]: '' }));
+    } catch (e: unknown) {
+      const aborted = controller.signal.aborted;
+      if (aborted && streamed.trim()) {
+        await saveCandidate(streamed);
+      } else {
+        show(target.content);
+      }
+      if (!aborted) {
+        setProblem({ error: e, retry: () => regenerate(id, instruction) });
       }
-    } catch (e: any) {
-      alert(e?.message || String(e));
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsBusy(false);
-      // Reset stop flag when generation completes or fails
-      setShouldStop(false);
+      setRetryStatus(null);
     }
   }
 
-  async function accept(id: string) {
-    updateSectionLocal({ id, status: 'accepted' });
-
-    // Check if this acceptance should trigger auto-advance (for first section)
-    if (autoAdvance && !isBusy && !shouldStop) {
-      // Small delay to let state update
-      setTimeout(async () => {
-        // Check again in case stop was pressed during the delay
-        if (shouldStop) {
-          console.info('Auto-advance cancelled by user');
-          return;
-        }
-        
-        const currentSections = await db.sections
-          .where({ bookId })
-          .sortBy('order');
-        const acceptedSections = currentSections
-          .filter((s) => s.status === 'accepted')
-          .sort((a, b) => a.order - b.order);
-        const acceptedCount = acceptedSections.length;
-        const lastSection = currentSections[currentSections.length - 1];
-
-        console.info(
-          `Auto-advance check: accepted=${acceptedCount}, max=${maxSections}, autoAdvance=${autoAdvance}`,
-        );
+  /** Generates the next section with each of the compare targets at once. */
+  async function runModelCompare() {
+    if (!(bookId && runId)) {
+      alert('Upload a book first');
+      return;
+    }
+    const unset = missingCompareSettings(compareTargets, providerSettings);
+    if (unset) {
+      alert(unset);
+      return;
+    }
+    if (
+      !(
+        (await budgetAllows(
+          accepted,
+          compareTargets.map((t) => t.model),
+        )) ||
+        confirm(
+          `Comparing ${compareTargets.length} models is estimated to go over this run's budget. Compare anyway?`,
+        )
+      )
+    ) {
+      return;
+    }
+    setProblem(null);
+    setIsBusy(true);
+    setCompareRunning(true);
+    setCompareResults(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const messages = await nextSectionMessages(accepted, controller.signal);
+      await compareModels(compareTargets, messages, {
+        resolve: (id) => {
+          const p = getProvider(id);
+          return p && { provider: p, settings: providerSettings[id] ?? {} };
+        },
+        signal: controller.signal,
+        onUpdate: (i, result) =>
+          setCompareResults((prev) => {
+            const next = prev ? [...prev] : [];
+            next[i] = result;
+            return next;
+          }),
+        onUsage: (target, usage) => trackUsage('compare', target)(usage),
+        onRetry,
+      });
+    } catch (e) {
+      // Only preparing the request (e.g. chunk notes) fails as a whole
+      if (!controller.signal.aborted) {
+        setProblem({ error: e, retry: runModelCompare });
+      }
+    } finally {
+      abortRef.current = null;
+      setCompareRunning(false);
+      setIsBusy(false);
+      setRetryStatus(null);
+    }
+  }
 
-        // Only auto-advance if we haven't reached max sections and the last section doesn't contain the stop token
-        if (
-          lastSection &&
-          !lastSection.content.includes(stopToken) &&
-          acceptedCount < maxSections
-        ) {
-          console.info('Auto-advancing to next section...');
-          await generateNext(acceptedSections);
-        } else {
-          console.info('Auto-advance stopped:', {
-            hasStopToken: lastSection?.content.includes(stopToken),
-            reachedMax: acceptedCount >= maxSections,
-          });
-        }
-      }, 200);
+  /** Adds one comparison column to the run as accepted; the rest are dropped. */
+  async function acceptCompared(index: number) {
+    const picked = compareResults?.[index];
+    if (!picked) {
+      return;
+    }
+    const refs = extractChunkRefs(picked.text);
+    const chunks = longBookMode ? refs.chunks : undefined;
+    const added: Section = {
+      id: crypto.randomUUID(),
+      content: refs.content,
+      heading: parseHeading(refs.content),
+      status: 'accepted',
+      order: nextOrder(sections),
+      ...(chunks && { chunks }),
+      candidates: [
+        {
+          content: refs.content,
+          ...(chunks && { chunks }),
+          createdAt: Date.now(),
+        },
+      ],
+      activeCandidate: 0,
+    };
+    setCompareResults(null);
+    setFocusStart(null);
+    await changeSections(`Accept ${picked.model}`, [
+      { id: added.id, before: null, after: added },
+    ]);
+  }
+
+  function showCandidate(id: string, index: number) {
+    const target = sections.find((s) => s.id === id);
+    if (target) {
+      updateSection('Switch candidate', id, selectCandidate(target, index));
     }
   }
 
   function discard(id: string) {
-    updateSectionLocal({ id, status: 'discarded' });
+    updateSection('Discard', id, { status: 'discarded' });
   }
   function edit(id: string, content: string) {
-    updateSectionLocal({ id, content });
+    const target = sections.find((s) => s.id === id);
+    if (target) {
+      updateSection(
+        'Edit',
+        id,
+        editActiveCandidate(target, content),
+        `edit:${id}`,
+      );
+    }
   }
 
-  function download(ext: 'md' | 'txt') {
-    const blob = new Blob([stitched], {
-      type: ext === 'md' ? 'text/markdown' : 'text/plain',
-    });
+  function moveAccepted(from: number, to: number) {
+    changeSections('Reorder', reordered(moveSection(accepted, from, to)));
+  }
+
+  function mergeWithNext(id: string) {
+    const i = accepted.findIndex((s) => s.id === id);
+    const first = accepted[i];
+    const second = accepted[i + 1];
+    if (first && second) {
+      changeSections('Merge', [
+        changed(first, mergeSections(first, second)),
+        { id: second.id, before: second, after: null },
+      ]);
+    }
+  }
+
+  /** Splits a section in two at `offset`; the new half follows it. */
+  function splitAt(id: string, offset: number) {
+    const target = sections.find((s) => s.id === id);
+    const halves = target && splitSection(target, offset);
+    if (!(target && halves)) {
+      return;
+    }
+    const [first, second] = halves;
+    const added = {
+      ...second,
+      id: crypto.randomUUID(),
+      heading: parseHeading(second.content),
+      status: target.status,
+      order: target.order + 1,
+    };
+    changeSections('Split', [
+      ...reordered(makeRoomAfter(sections, target.order)),
+      changed(target, first),
+      { id: added.id, before: null, after: added },
+    ]);
+  }
+
+  function saveFile(blob: Blob, ext: string) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -591,7 +1216,90 @@ export default function BookDistiller() {
     URL.revokeObjectURL(url);
   }
 
+  function download(ext: 'md' | 'txt') {
+    saveFile(
+      new Blob([stitched], {
+        type: ext === 'md' ? 'text/markdown' : 'text/plain',
+      }),
+      ext,
+    );
+  }
+
+  const exportBook = (): ExportBook => ({
+    title,
+    author,
+    language: publication.language,
+    sections: accepted.map(({ heading, content }) => ({ heading, content })),
+  });
+
+  async function downloadEpub() {
+    saveFile(
+      await buildEpub(exportBook()).generateAsync({
+        type: 'blob',
+        mimeType: 'application/epub+zip',
+        compression: 'DEFLATE',
+      }),
+      'epub',
+    );
+  }
+
+  async function downloadDocx() {
+    saveFile(
+      await buildDocx(exportBook()).generateAsync({
+        type: 'blob',
+        mimeType:
+          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        compression: 'DEFLATE',
+      }),
+      'docx',
+    );
+  }
+
+  function downloadHtml() {
+    saveFile(
+      new Blob([buildHtmlDocument(exportBook())], { type: 'text/html' }),
+      'html',
+    );
+  }
+
   const charCount = bookText.length;
+  const holdNote = runnerNote(runnerState);
+  // Building the prompts (in long-book mode, every chunk's) is costly, so it
+  // is redone only when they change, and skipped while streaming
+  const nextEstimate = useMemo(
+    () =>
+      bookText && !isBusy
+        ? estimateNextSection({
+            model,
+            prompt,
+            userTemplate,
+            info: bookInfo,
+            bookText,
+            stopToken,
+            history: stitched,
+            acceptedCount: accepted.length,
+            chunks: longBookMode ? chunkRanges : undefined,
+            notedChunks,
+          })
+        : null,
+    [
+      model,
+      prompt,
+      userTemplate,
+      bookInfo,
+      bookText,
+      stopToken,
+      stitched,
+      accepted.length,
+      longBookMode,
+      chunkRanges,
+      notedChunks,
+      isBusy,
+    ],
+  );
+  const overBudget =
+    !!nextEstimate &&
+    exceedsBudget(currentRun?.budget, spend?.cost ?? 0, nextEstimate);
 
   return (
     <div className="mx-auto max-w-7xl p-4 space-y-4">
@@ -602,6 +1310,14 @@ export default function BookDistiller() {
         </Badge>
       </div>
 
+      {problem && (
+        <ErrorPanel
+          error={problem.error}
+          onRetry={problem.retry}
+          onDismiss={() => setProblem(null)}
+        />
+      )}
+
       <div className="grid grid-cols-12 gap-4">
         <div className="col-span-12 lg:col-span-3 space-y-4">
           <Card>
@@ -626,23 +1342,144 @@ export default function BookDistiller() {
                   onChange={(e) => setAuthor(e.target.value)}
                 />
               </div>
+              {(publication.publisher ||
+                publication.publishedDate ||
+                publication.language) && (
+                <div className="text-xs text-muted-foreground">
+                  {[
+                    publication.publisher,
+                    publication.publishedDate,
+                    publication.language?.toUpperCase(),
+                  ]
+                    .filter(Boolean)
+                    .join(' • ')}
+                </div>
+              )}
               <div className="text-xs text-muted-foreground">
-                {charCount
-                  ? `${charCount.toLocaleString()} chars extracted`
-                  : 'No text yet'}
+                {extractProgress ??
+                  (charCount
+                    ? `${charCount.toLocaleString()} chars extracted`
+                    : 'No text yet')}
               </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={!bookText}
+                onClick={() => setShowSource((v) => !v)}
+              >
+                {showSource ? 'Hide text' : 'View text'}
+              </Button>
+              {chapters.length > 0 && (
+                <ChapterList chapters={chapters} textLength={charCount} />
+              )}
             </CardContent>
           </Card>
 
+          {runs.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Run</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Select
+                  value={runId}
+                  onValueChange={(id) => {
+                    const run = runs.find((r) => r.id === id);
+                    if (run) {
+                      switchRun(run);
+                    }
+                  }}
+                  disabled={isBusy}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Run" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {runs.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.name} · {r.model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={newRun}
+                    disabled={isBusy}
+                  >
+                    New run
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => setComparing((c) => !c)}
+                    disabled={runs.length < 2}
+                  >
+                    {comparing ? 'Hide compare' : 'Compare'}
+                  </Button>
+                </div>
+                {runs.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    className="w-full"
+                    onClick={removeRun}
+                    disabled={isBusy}
+                  >
+                    Delete this run
+                  </Button>
+                )}
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="run-budget" className="shrink-0">
+                    Budget (USD)
+                  </Label>
+                  <Input
+                    id="run-budget"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    placeholder="No limit"
+                    value={currentRun?.budget ?? ''}
+                    onChange={(e) => changeBudget(e.target.value)}
+                  />
+                </div>
+                {spend && spend.calls > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    Spent {formatCost(spend.cost)}
+                    {currentRun?.budget !== undefined &&
+                      ` of ${formatCost(currentRun.budget)}`}{' '}
+                    · {spend.inputTokens.toLocaleString()} in /{' '}
+                    {spend.outputTokens.toLocaleString()} out tokens over{' '}
+                    {spend.calls} call{spend.calls === 1 ? '' : 's'}
+                    {spend.unpriced > 0 &&
+                      ` (${spend.unpriced} to unpriced models not counted)`}
+                  </div>
+                )}
+                <div className="text-[11px] text-muted-foreground">
+                  A stopped or failed call counts only the tokens its provider
+                  reported before it ended; some report none until the end.
+                </div>
+                <div className="text-[11px] text-muted-foreground">
+                  Switching runs restores the prompt, model and stop settings
+                  they were generated with.
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="text-base">Prompt</CardTitle>
             </CardHeader>
             <CardContent>
-              <Textarea
-                className="h-56"
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
+              <PromptEditor
+                system={prompt}
+                user={userTemplate}
+                onSystemChange={setPrompt}
+                onUserChange={setUserTemplate}
+                preview={previewPrompts}
               />
             </CardContent>
           </Card>
@@ -653,27 +1490,39 @@ export default function BookDistiller() {
             </CardHeader>
             <CardContent className="space-y-2">
               <Label>Provider</Label>
-              <Select value={provider} onValueChange={setProvider}>
+              <Select value={llm.id} onValueChange={setProvider}>
                 <SelectTrigger>
                   <SelectValue placeholder="Provider" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="openai">OpenAI</SelectItem>
-                  <SelectItem value="anthropic">Anthropic</SelectItem>
-                  <SelectItem value="google">Google (Gemini)</SelectItem>
+                  {listProviders().map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Input
-                placeholder="Model (e.g., gpt-4o-mini, claude-3-5-sonnet, gemini-1.5-pro)"
+                placeholder={`Model (e.g., ${llm.defaultModel})`}
                 value={model}
                 onChange={(e) => setModel(e.target.value)}
               />
-              <Input
-                type="password"
-                placeholder={`API key for ${provider} (stored locally)`}
-                value={currentApiKey}
-                onChange={(e) => setCurrentApiKey(e.target.value)}
-              />
+              {llm.fields.map((f) => (
+                <div key={f.key} className="space-y-1">
+                  <Input
+                    type={f.type}
+                    aria-label={f.label}
+                    placeholder={f.placeholder ?? f.label}
+                    value={currentSettings[f.key] || ''}
+                    onChange={(e) => setProviderField(f.key, e.target.value)}
+                  />
+                  {f.help && (
+                    <div className="text-[11px] text-muted-foreground">
+                      {f.help}
+                    </div>
+                  )}
+                </div>
+              ))}
               <div className="text-[11px] text-muted-foreground">
                 Keys in the browser are visible to the page. Use
                 temporary/restricted keys ideally.
@@ -703,6 +1552,26 @@ export default function BookDistiller() {
                   }
                 />
               </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={longBookMode}
+                  onCheckedChange={setLongBookMode}
+                />
+                <Label>Long‑book mode</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={conversationMode}
+                  onCheckedChange={setConversationMode}
+                />
+                <Label>Conversation mode</Label>
+              </div>
+              {longBookMode && (
+                <div className="text-xs text-muted-foreground">
+                  {notesProgress ??
+                    `Whole book read as ${chunkRanges.length} chunk${chunkRanges.length === 1 ? '' : 's'} of notes for ${model || 'this model'}.`}
+                </div>
+              )}
               <Input
                 placeholder="Stop token"
                 value={stopToken}
@@ -712,30 +1581,89 @@ export default function BookDistiller() {
                 <Button
                   variant="default"
                   className="flex-1 border"
-                  onClick={() => generateNext()}
+                  onClick={requestNext}
                   disabled={isBusy}
                 >
                   {isBusy
                     ? 'Generating...'
-                    : sections.length
-                      ? 'Next'
-                      : 'Start'}
+                    : runnerState?.status === 'paused'
+                      ? 'Resume'
+                      : sections.length
+                        ? 'Next'
+                        : 'Start'}
                 </Button>
-                <Button variant="outline" className="flex-1" onClick={undoLast}>
-                  Undo last
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={isBusy || !history.undo}
+                  title={
+                    history.undo ? `Undo ${history.undo} (Ctrl+Z)` : undefined
+                  }
+                  onClick={undoStep}
+                >
+                  Undo
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={isBusy || !history.redo}
+                  title={
+                    history.redo
+                      ? `Redo ${history.redo} (Ctrl+Shift+Z)`
+                      : undefined
+                  }
+                  onClick={redoStep}
+                >
+                  Redo
                 </Button>
               </div>
+              {holdNote && (
+                <div className="text-xs text-muted-foreground">{holdNote}</div>
+              )}
+              {retryStatus && (
+                <div className="text-xs text-muted-foreground">
+                  {retryStatus}
+                </div>
+              )}
+              {nextEstimate && (
+                <div
+                  className={
+                    overBudget
+                      ? 'text-xs text-destructive'
+                      : 'text-xs text-muted-foreground'
+                  }
+                >
+                  Next call ≈ {nextEstimate.inputTokens.toLocaleString()} in +{' '}
+                  {nextEstimate.outputTokens.toLocaleString()} out tokens
+                  {nextEstimate.cost === undefined
+                    ? ` · no price for ${model}`
+                    : ` ≈ ${formatCost(nextEstimate.cost)}`}
+                  {overBudget && ' · over budget'}
+                </div>
+              )}
               {(isBusy || autoAdvance) && (
-                <Button 
-                  variant="destructive" 
-                  className="w-full" 
-                  onClick={() => setShouldStop(true)}
-                  disabled={!isBusy && !autoAdvance}
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  onClick={stopProcess}
+                  disabled={!(isBusy || autoAdvance)}
                 >
                   Stop Process
                 </Button>
               )}
-              <Button variant="outline" className="w-full" onClick={clearRun}>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => setShowModelCompare((v) => !v)}
+              >
+                {showModelCompare ? 'Hide model comparison' : 'Compare models'}
+              </Button>
+              <Button
+                variant="outline"
+                className="w-full"
+                disabled={isBusy || !sections.length}
+                onClick={clearRun}
+              >
                 Clear run
               </Button>
               <div className="text-xs text-muted-foreground">
@@ -760,34 +1688,139 @@ export default function BookDistiller() {
                     </div>
                   )}
                   {sections.map((s, idx) => (
-                    <div key={s.id} className="border rounded-xl p-3 bg-white dark:bg-gray-950">
+                    <div
+                      key={s.id}
+                      className="border rounded-xl p-3 bg-white dark:bg-gray-950"
+                    >
                       <div className="flex items-center justify-between mb-2">
                         <div className="text-sm font-semibold truncate pr-2">
                           {s.heading || `Section ${idx + 1}`}
                         </div>
-                        <Badge
-                          variant={
-                            s.status === 'accepted'
-                              ? 'default'
-                              : s.status === 'discarded'
-                                ? 'destructive'
-                                : 'secondary'
-                          }
-                        >
-                          {s.status}
-                        </Badge>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={s.id === streamingId}
+                            onClick={() =>
+                              setEditing((prev) => ({
+                                ...prev,
+                                [s.id]: !prev[s.id],
+                              }))
+                            }
+                          >
+                            {editing[s.id] ? 'Preview' : 'Edit'}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={isBusy}
+                            onClick={() => deleteSection(s.id)}
+                          >
+                            Delete
+                          </Button>
+                          <Badge variant={STATUS_BADGE[s.status]}>
+                            {s.status}
+                          </Badge>
+                        </div>
                       </div>
-                      <Textarea
-                        className="mt-2 h-40 resize-none overflow-auto"
-                        value={s.content}
-                        onChange={(e) => edit(s.id, e.target.value)}
-                      />
-                      {s.status === 'draft' && (
-                        <div className="flex gap-2 mt-2">
-                          <Button variant="default" className="border" onClick={() => accept(s.id)}>Accept</Button>
-                          <Button variant="outline" onClick={() => discard(s.id)}>
-                            Discard
+                      {!!s.chunks?.length && (
+                        <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                          From chunks
+                          {s.chunks.map((n) => {
+                            const range = chunkRanges[n - 1];
+                            return (
+                              <Badge
+                                key={n}
+                                variant="outline"
+                                title={
+                                  range
+                                    ? `Characters ${range.start.toLocaleString()}–${range.end.toLocaleString()}`
+                                    : undefined
+                                }
+                              >
+                                {n}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                      )}
+                      {editing[s.id] && s.id !== streamingId ? (
+                        <>
+                          <Textarea
+                            className="mt-2 h-40 resize-none overflow-auto font-mono"
+                            value={s.content}
+                            onChange={(e) => edit(s.id, e.target.value)}
+                            onSelect={(e) => {
+                              const at = e.currentTarget.selectionStart;
+                              setCursor((prev) => ({ ...prev, [s.id]: at }));
+                            }}
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-2"
+                            disabled={isBusy || !cursor[s.id]}
+                            onClick={() => splitAt(s.id, cursor[s.id])}
+                          >
+                            Split at cursor
                           </Button>
+                        </>
+                      ) : (
+                        <MarkdownView
+                          className="mt-2 max-h-80 overflow-auto rounded-md border px-3 py-2"
+                          markdown={s.content}
+                        />
+                      )}
+                      {s.id !== streamingId && (
+                        <QuoteReport
+                          className="mt-2"
+                          content={s.content}
+                          bookText={bookText}
+                          onLocate={locateInSource}
+                        />
+                      )}
+                      {s.status === 'draft' && s.id !== streamingId && (
+                        <div className="space-y-2 mt-2">
+                          <CandidatePicker
+                            section={s}
+                            onSelect={(i) => showCandidate(s.id, i)}
+                          />
+                          <div className="flex gap-2">
+                            <Button
+                              variant="default"
+                              className="border"
+                              onClick={() => accept(s.id)}
+                            >
+                              Accept
+                            </Button>
+                            <Button
+                              variant="outline"
+                              onClick={() => discard(s.id)}
+                            >
+                              Discard
+                            </Button>
+                          </div>
+                          <div className="flex gap-2">
+                            <Input
+                              placeholder="Optional instruction (e.g., more excerpts)"
+                              value={feedback[s.id] ?? ''}
+                              onChange={(e) =>
+                                setFeedback((prev) => ({
+                                  ...prev,
+                                  [s.id]: e.target.value,
+                                }))
+                              }
+                            />
+                            <Button
+                              variant="outline"
+                              disabled={isBusy}
+                              onClick={() =>
+                                regenerate(s.id, feedback[s.id] ?? '')
+                              }
+                            >
+                              Regenerate
+                            </Button>
+                          </div>
                         </div>
                       )}
                     </div>
@@ -799,26 +1832,38 @@ export default function BookDistiller() {
         </div>
 
         <div className="col-span-12 lg:col-span-4 space-y-4">
+          {bookText && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Coverage</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CoverageMap
+                  coverage={coverage}
+                  textLength={bookText.length}
+                  headings={
+                    new Map(
+                      accepted.map((s) => [s.id, parseHeading(s.content)]),
+                    )
+                  }
+                  focus={focusRegion}
+                  onFocus={(r) => setFocusStart(r?.start ?? null)}
+                />
+              </CardContent>
+            </Card>
+          )}
           <Card className="h-[48vh] flex flex-col">
             <CardHeader>
               <CardTitle className="text-base">Outline</CardTitle>
             </CardHeader>
             <CardContent className="flex-1 overflow-auto">
-              <ol className="space-y-1 text-sm">
-                {accepted.length === 0 && (
-                  <li className="text-muted-foreground">(empty)</li>
-                )}
-                {accepted.map((s, i) => (
-                  <li key={s.id} className="flex items-center gap-2">
-                    <span className="w-6 h-6 inline-flex items-center justify-center rounded-full bg-foreground text-background text-xs">
-                      {i + 1}
-                    </span>
-                    <span className="truncate" title={s.heading}>
-                      {s.heading}
-                    </span>
-                  </li>
-                ))}
-              </ol>
+              <Outline
+                sections={accepted}
+                disabled={isBusy}
+                onMove={moveAccepted}
+                onMergeWithNext={mergeWithNext}
+                onSplit={splitAt}
+              />
             </CardContent>
           </Card>
 
@@ -827,15 +1872,17 @@ export default function BookDistiller() {
               <CardTitle className="text-base">Draft (stitched)</CardTitle>
             </CardHeader>
             <CardContent className="flex-1 overflow-auto">
-              <div className="text-sm whitespace-pre-wrap leading-6 min-h-24">
-                {stitched || (
-                  <span className="text-muted-foreground">
+              <div className="min-h-24">
+                {stitched ? (
+                  <MarkdownView markdown={stitched} />
+                ) : (
+                  <span className="text-sm text-muted-foreground">
                     Accepted sections will appear here…
                   </span>
                 )}
               </div>
               <Separator className="my-2" />
-              <div className="flex gap-2">
+              <div className="flex flex-wrap gap-2">
                 <Button onClick={() => navigator.clipboard.writeText(stitched)}>
                   Copy all
                 </Button>
@@ -845,12 +1892,66 @@ export default function BookDistiller() {
                 <Button variant="outline" onClick={() => download('txt')}>
                   .txt
                 </Button>
+                <Button
+                  variant="outline"
+                  disabled={!accepted.length}
+                  onClick={downloadEpub}
+                >
+                  .epub
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={!accepted.length}
+                  onClick={downloadDocx}
+                >
+                  .docx
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={!accepted.length}
+                  onClick={downloadHtml}
+                >
+                  .html
+                </Button>
               </div>
             </CardContent>
           </Card>
         </div>
       </div>
 
+      {comparing && runs.length > 1 && (
+        <RunCompare runs={runs} currentRunId={runId} sections={sections} />
+      )}
+
+      {showModelCompare && (
+        <ModelCompare
+          targets={compareTargets}
+          onTargetsChange={setCompareTargets}
+          results={compareResults}
+          running={compareRunning}
+          disabled={isBusy}
+          onRun={runModelCompare}
+          onStop={stopProcess}
+          onAccept={acceptCompared}
+          onDismiss={() => setCompareResults(null)}
+        />
+      )}
+
+      {showSource && bookText && (
+        <Card ref={sourceRef}>
+          <CardHeader>
+            <CardTitle className="text-base">Source text</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SourceViewer
+              text={bookText}
+              chapters={chapters}
+              target={sourceTarget}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       <footer className="text-xs text-muted-foreground">
         PDF/EPUB are parsed locally. Storage is persistent in your browser
         (IndexedDB).
@@ -0,0 +1,120 @@
+import { Download, Upload } from 'lucide-react';
+import { useRef, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { exportProject, type ImportMode, importProject } from '@/lib/backup';
+
+type ProjectBackupProps = {
+  /** Called after an import so the page can reload its data. */
+  onImported: () => void;
+};
+
+/** Export the whole project as a zip, or import one back. */
+export function ProjectBackup({ onImported }: ProjectBackupProps) {
+  const [files, setFiles] = useState(true);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [busy, setBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  async function onExport() {
+    setBusy(true);
+    try {
+      const url = URL.createObjectURL(await exportProject({ files }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `book-distiller-${new Date().toISOString().slice(0, 10)}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onImport(file: File | null) {
+    if (
+      !file ||
+      (mode === 'replace' &&
+        !confirm(
+          'Replace every book, run and preset in this browser with the archive? This cannot be undone.',
+        ))
+    ) {
+      return;
+    }
+    setBusy(true);
+    try {
+      const { books, sections } = await importProject(file, mode);
+      alert(`Imported ${books} book(s) and ${sections} section(s).`);
+      onImported();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Backup</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" disabled={busy} onClick={onExport}>
+            <Download /> Export project
+          </Button>
+          <Switch
+            id="backup-files"
+            checked={files}
+            onCheckedChange={setFiles}
+          />
+          <Label htmlFor="backup-files">Include original files</Label>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            disabled={busy}
+            onClick={() => fileRef.current?.click()}
+          >
+            <Upload /> Import project
+          </Button>
+          <Select value={mode} onValueChange={(v) => setMode(v as ImportMode)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">Merge</SelectItem>
+              <SelectItem value="replace">Replace everything</SelectItem>
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              onImport(e.target.files?.[0] || null);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <div className="text-[11px] text-muted-foreground">
+          The archive holds books, extracted text, runs, sections, notes,
+          presets and preferences. API keys are never included. Merging replaces
+          the archive's books here and keeps the others.
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import { useNavigate } from '@tanstack/react-router';
+import { useEffect, useState } from 'react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { pageProgressLabel } from '@/lib/extract/extract-text';
+import {
+  deleteBook,
+  type LibraryEntry,
+  listLibrary,
+  openBook,
+  reextractBook,
+  renameBook,
+} from '@/lib/library';
+
+import { ProjectBackup } from './components/project-backup';
+
+type Draft = { id: string; title: string; author: string };
+
+export default function Library() {
+  const navigate = useNavigate();
+  const [books, setBooks] = useState<Array<LibraryEntry> | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  async function refresh() {
+    setBooks(await listLibrary());
+  }
+
+  useEffect(() => {
+    listLibrary().then(setBooks);
+  }, []);
+
+  async function open(id: string) {
+    await openBook(id);
+    navigate({ to: '/' });
+  }
+
+  async function saveRename() {
+    if (!draft) {
+      return;
+    }
+    await renameBook(draft.id, {
+      title: draft.title.trim(),
+      author: draft.author.trim(),
+    });
+    setDraft(null);
+    await refresh();
+  }
+
+  async function reextract(id: string) {
+    setBusyId(id);
+    try {
+      await reextractBook(id, (p) => setProgress(pageProgressLabel(p)));
+      await refresh();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusyId(null);
+      setProgress(null);
+    }
+  }
+
+  async function remove(book: LibraryEntry) {
+    if (
+      !confirm(
+        `Delete "${book.title || book.name}" with its ${book.sectionCount} section(s)? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+    await deleteBook(book.id);
+    await refresh();
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <h1 className="text-xl font-semibold">Library</h1>
+        {books && (
+          <Badge variant="secondary" className="ml-2">
+            {books.length} book{books.length === 1 ? '' : 's'}
+          </Badge>
+        )}
+      </div>
+
+      <ProjectBackup onImported={refresh} />
+
+      {books?.length === 0 && (
+        <div className="text-sm text-muted-foreground">
+          No books yet. Upload one from the distiller.
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {books?.map((b) => (
+          <Card key={b.id}>
+            <CardHeader>
+              {draft?.id === b.id ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    placeholder="Title"
+                    value={draft.title}
+                    onChange={(e) =>
+                      setDraft({ ...draft, title: e.target.value })
+                    }
+                  />
+                  <Input
+                    placeholder="Author"
+                    value={draft.author}
+                    onChange={(e) =>
+                      setDraft({ ...draft, author: e.target.value })
+                    }
+                  />
+                </div>
+              ) : (
+                <CardTitle className="text-base">
+                  {b.title || b.name}
+                  {b.author && (
+                    <span className="font-normal text-muted-foreground">
+                      {' '}
+                      by {b.author}
+                    </span>
+                  )}
+                </CardTitle>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {(b.publisher || b.publishedDate) && (
+                <div className="text-xs text-muted-foreground">
+                  {[b.publisher, b.publishedDate].filter(Boolean).join(' • ')}
+                </div>
+              )}
+              <div className="text-xs text-muted-foreground">
+                {b.name} • Uploaded {new Date(b.createdAt).toLocaleDateString()}{' '}
+                • {b.charCount.toLocaleString()} chars • {b.sectionCount}{' '}
+                section{b.sectionCount === 1 ? '' : 's'}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {draft?.id === b.id ? (
+                  <>
+                    <Button onClick={saveRename}>Save</Button>
+                    <Button variant="outline" onClick={() => setDraft(null)}>
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button onClick={() => open(b.id)}>Open</Button>
+                    <Button
+                      variant="outline"
+                      onClick={() =>
+                        setDraft({
+                          id: b.id,
+                          title: b.title || '',
+                          author: b.author || '',
+                        })
+                      }
+                    >
+                      Rename
+                    </Button>
+                    <Button
+                      variant="outline"
+                      disabled={!b.hasBlob || busyId === b.id}
+                      onClick={() => reextract(b.id)}
+                    >
+                      {busyId === b.id
+                        ? (progress ?? 'Extracting...')
+                        : 'Re‑extract'}
+                    </Button>
+                    <Button variant="destructive" onClick={() => remove(b)}>
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
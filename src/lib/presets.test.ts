@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'vitest';
+
+import { parsePresetFile, presetFileJSON, uniqueName } from './presets';
+
+const preset = { name: 'Terse', system: 'Be brief.', user: '{{book_text}}' };
+
+describe('parsePresetFile', () => {
+  test('reads back an exported file', () => {
+    expect(parsePresetFile(presetFileJSON([preset]))).toEqual([preset]);
+  });
+
+  test('rejects files that are not presets', () => {
+    expect(() => parsePresetFile('not json')).toThrow('not valid JSON');
+    expect(() => parsePresetFile('{"version":2,"presets":[]}')).toThrow(
+      'Not a presets file: version',
+    );
+    expect(() =>
+      parsePresetFile(
+        '{"version":1,"presets":[{"name":" ","system":"","user":""}]}',
+      ),
+    ).toThrow('presets.0.name');
+  });
+});
+
+describe('uniqueName', () => {
+  test('numbers names that are already taken', () => {
+    expect(uniqueName('Terse', ['Other'])).toBe('Terse');
+    expect(uniqueName('Terse', ['Terse', 'Terse (2)'])).toBe('Terse (3)');
+  });
+});
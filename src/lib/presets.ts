@@ -0,0 +1,115 @@
+import { z } from 'zod';
+
+import { db, type PromptPresetRecord } from '@/lib/db';
+
+export type PresetContent = Pick<
+  PromptPresetRecord,
+  'name' | 'system' | 'user'
+>;
+
+const PresetFile = z.object({
+  version: z.literal(1),
+  presets: z.array(
+    z.object({
+      name: z.string().trim().min(1),
+      system: z.string(),
+      user: z.string(),
+    }),
+  ),
+});
+
+export function listPresets() {
+  return db.presets.orderBy('name').toArray();
+}
+
+/** `name`, or `name (2)`, `name (3)`… if it is already taken. */
+export function uniqueName(name: string, taken: Iterable<string>) {
+  const names = new Set(taken);
+  let candidate = name;
+  for (let n = 2; names.has(candidate); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
+
+async function addPresets(contents: Array<PresetContent>) {
+  const taken = (await db.presets.toArray()).map((p) => p.name);
+  const now = Date.now();
+  const presets = contents.map((c) => {
+    const name = uniqueName(c.name, taken);
+    taken.push(name);
+    return {
+      ...c,
+      name,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+  });
+  await db.presets.bulkAdd(presets);
+  return presets;
+}
+
+export async function createPreset(content: PresetContent) {
+  const [preset] = await addPresets([content]);
+  return preset;
+}
+
+/** Overwrites a preset's prompts, keeping its name. */
+export async function updatePreset(
+  id: string,
+  changes: Pick<PromptPresetRecord, 'system' | 'user'>,
+) {
+  await db.presets.update(id, { ...changes, updatedAt: Date.now() });
+}
+
+export async function duplicatePreset(id: string) {
+  const preset = await db.presets.get(id);
+  if (!preset) {
+    throw new Error('Preset not found');
+  }
+  return createPreset({ ...preset, name: `${preset.name} copy` });
+}
+
+export async function deletePreset(id: string) {
+  await db.presets.delete(id);
+}
+
+/** The JSON file presets are exported as and imported from. */
+export function presetFileJSON(presets: Array<PresetContent>) {
+  return JSON.stringify(
+    {
+      version: 1,
+      presets: presets.map(({ name, system, user }) => ({
+        name,
+        system,
+        user,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+/** Reads an exported presets file, with a readable error if it isn't one. */
+export function parsePresetFile(text: string): Array<PresetContent> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const result = PresetFile.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `Not a presets file: ${issue.path.join('.') || 'file'}: ${issue.message}`,
+    );
+  }
+  return result.data.presets;
+}
+
+/** Adds the presets in an exported file; clashing names get a suffix. */
+export function importPresets(text: string) {
+  return addPresets(parsePresetFile(text));
+}
@@ -0,0 +1,138 @@
+import 'fake-indexeddb/auto';
+
+import { beforeEach, describe, expect, test } from 'vitest';
+
+import { db, type RunSettings, type SectionRecord } from '@/lib/db';
+
+import {
+  createRun,
+  deleteRun,
+  listRuns,
+  runOutlines,
+  snapshotRunSettings,
+} from './runs';
+
+const settings: RunSettings = {
+  prompt: 'Distill it',
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  stopToken: '<end>',
+  maxSections: 5,
+};
+
+function section(
+  runId: string,
+  order: number,
+  status: SectionRecord['status'] = 'accepted',
+): SectionRecord {
+  return {
+    id: `${runId}:${order}`,
+    bookId: 'book',
+    runId,
+    content: `## Part ${order}`,
+    heading: `Part ${order}`,
+    status,
+    order,
+  };
+}
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((t) => t.clear()));
+});
+
+describe('createRun', () => {
+  test('numbers runs per book', async () => {
+    const first = await createRun('book', settings);
+    const second = await createRun('book', settings);
+    const other = await createRun('other', settings);
+    expect([first.name, second.name, other.name]).toEqual([
+      'Run 1',
+      'Run 2',
+      'Run 1',
+    ]);
+    expect(first).toMatchObject({ bookId: 'book', ...settings });
+    expect((await listRuns('book')).map((r) => r.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+  });
+});
+
+describe('snapshotRunSettings', () => {
+  test('records the settings of the first section only', async () => {
+    const run = await createRun('book', settings);
+    await db.sections.put(section(run.id, 1));
+    expect(await snapshotRunSettings(run.id, { ...settings, model: 'a' })).toBe(
+      true,
+    );
+    await db.sections.put(section(run.id, 2));
+    expect(await snapshotRunSettings(run.id, { ...settings, model: 'b' })).toBe(
+      false,
+    );
+    expect((await db.runs.get(run.id))?.model).toBe('a');
+  });
+});
+
+describe('runOutlines', () => {
+  test("lists each run's accepted headings in order", async () => {
+    await db.sections.bulkPut([
+      section('a', 2),
+      section('a', 1),
+      section('a', 3, 'discarded'),
+      section('b', 1, 'draft'),
+    ]);
+    expect(await runOutlines(['a', 'b'])).toEqual(
+      new Map([
+        ['a', ['Part 1', 'Part 2']],
+        ['b', []],
+      ]),
+    );
+  });
+});
+
+describe('deleteRun', () => {
+  test('removes the run with its sections, usage, history and runner', async () => {
+    const run = await createRun('book', settings);
+    const kept = await createRun('book', settings);
+    for (const id of [run.id, kept.id]) {
+      await db.sections.put(section(id, 1));
+      await db.usage.put({
+        id: `usage:${id}`,
+        bookId: 'book',
+        runId: id,
+        kind: 'section',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        inputTokens: 1,
+        outputTokens: 1,
+        createdAt: 0,
+      });
+      await db.history.add({
+        bookId: 'book',
+        runId: id,
+        label: 'Accept',
+        changes: [],
+        undone: false,
+        createdAt: 0,
+        updatedAt: 0,
+      });
+      await db.runners.put({
+        runId: id,
+        bookId: 'book',
+        status: 'idle',
+        updatedAt: 0,
+      });
+    }
+    await deleteRun(run.id);
+    const left = await Promise.all(
+      [db.runs, db.sections, db.usage, db.history, db.runners].map((t) =>
+        t.toArray(),
+      ),
+    );
+    for (const rows of left) {
+      expect(rows.map((r) => ('runId' in r ? r.runId : r.id))).toEqual([
+        kept.id,
+      ]);
+    }
+  });
+});
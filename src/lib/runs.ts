@@ -0,0 +1,66 @@
+import { db, type RunRecord, type RunSettings } from '@/lib/db';
+
+export function listRuns(bookId: string) {
+  return db.runs.where({ bookId }).sortBy('createdAt');
+}
+
+export async function createRun(bookId: string, settings: RunSettings) {
+  const count = await db.runs.where({ bookId }).count();
+  const run: RunRecord = {
+    id: crypto.randomUUID(),
+    bookId,
+    name: `Run ${count + 1}`,
+    ...settings,
+    createdAt: Date.now(),
+  };
+  await db.runs.put(run);
+  return run;
+}
+
+/**
+ * Records the settings a run's first section was generated with. Later
+ * sections leave the snapshot alone, so it keeps showing what produced the
+ * run. Resolves to whether it was written.
+ */
+export function snapshotRunSettings(id: string, settings: RunSettings) {
+  return db.transaction('rw', [db.runs, db.sections], async () => {
+    if ((await db.sections.where({ runId: id }).count()) !== 1) {
+      return false;
+    }
+    await db.runs.update(id, settings);
+    return true;
+  });
+}
+
+/** Sets or clears (`undefined`) the run's spending cap in USD. */
+export async function setRunBudget(id: string, budget: number | undefined) {
+  await db.runs.update(id, { budget });
+}
+
+export async function deleteRun(id: string) {
+  await db.transaction(
+    'rw',
+    [db.runs, db.sections, db.usage, db.history, db.runners],
+    async () => {
+      await db.sections.where({ runId: id }).delete();
+      await db.history.where({ runId: id }).delete();
+      await db.runners.delete(id);
+      await db.usage.where({ runId: id }).delete();
+      await db.runs.delete(id);
+    },
+  );
+}
+
+/** Accepted section headings per run, for side-by-side comparison. */
+export async function runOutlines(runIds: Array<string>) {
+  const outlines = await Promise.all(
+    runIds.map(async (runId) => {
+      const sections = await db.sections.where({ runId }).sortBy('order');
+      return [
+        runId,
+        sections.filter((s) => s.status === 'accepted').map((s) => s.heading),
+      ] as const;
+    }),
+  );
+  return new Map(outlines);
+}
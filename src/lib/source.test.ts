@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+
+import { blockAt, highlightPieces, searchText, splitBlocks } from './source';
+
+describe('splitBlocks', () => {
+  test('covers the text in blocks ending at paragraph breaks', () => {
+    const text = 'aaaa bbbb\n\ncccc dddd\neeee ffff';
+    const blocks = splitBlocks(text, 14);
+    expect(blocks.map((b) => text.slice(b.start, b.end))).toEqual([
+      'aaaa bbbb\n\n',
+      'cccc dddd\n',
+      'eeee ffff',
+    ]);
+    expect(blockAt(blocks, 0)).toBe(0);
+    expect(blockAt(blocks, 11)).toBe(1);
+    expect(blockAt(blocks, 25)).toBe(2);
+  });
+
+  test('starts a block at each forced break', () => {
+    const text = 'one two three four five six';
+    const blocks = splitBlocks(text, 100, [8, 19]);
+    expect(blocks.map((b) => text.slice(b.start, b.end))).toEqual([
+      'one two ',
+      'three four ',
+      'five six',
+    ]);
+  });
+});
+
+describe('searchText', () => {
+  test('ignores case and matches across line breaks', () => {
+    const text = 'The quick\nbrown fox. the QUICK brown (fox)';
+    expect(searchText(text, 'quick brown')).toEqual([
+      { start: 4, end: 15 },
+      { start: 25, end: 36 },
+    ]);
+    expect(searchText(text, '(fox)')).toEqual([{ start: 37, end: 42 }]);
+    expect(searchText(text, '  ')).toEqual([]);
+  });
+});
+
+describe('highlightPieces', () => {
+  test('splits a block around the spans that reach into it', () => {
+    const text = 'one two three four';
+    const pieces = highlightPieces(text, { start: 4, end: 18 }, [
+      { start: 0, end: 7, key: 'a' },
+      { start: 8, end: 13, key: 'b' },
+    ]);
+    expect(pieces).toEqual([
+      { text: 'two', start: 4, key: 'a' },
+      { text: ' ', start: 7 },
+      { text: 'three', start: 8, key: 'b' },
+      { text: ' four', start: 13 },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/** A span of the book text, as offsets into it. */
+export type TextSpan = { start: number; end: number };
+
+/** Characters per block the source viewer renders as one unit. */
+const BLOCK_CHARS = 2000;
+/** Matches beyond this are not listed; the search is too broad by then. */
+const MAX_MATCHES = 1000;
+
+const SPECIAL = /[.*+?^${}()|[\]\\]/g;
+const SPACE_RUN = /\s+/g;
+
+/** Last break before `limit`: a blank line, else a newline, else a space. */
+function breakBefore(text: string, from: number, limit: number) {
+  const slice = text.slice(from, limit);
+  for (const sep of ['\n\n', '\n', ' ']) {
+    const at = slice.lastIndexOf(sep);
+    if (at > 0) {
+      return from + at + sep.length;
+    }
+  }
+  return limit;
+}
+
+/**
+ * Cuts the text into consecutive blocks of about `size` characters, ending at
+ * paragraph breaks where there are any, so each renders as a unit. Offsets in
+ * `breaks`, such as chapter starts, always begin a block.
+ */
+export function splitBlocks(
+  text: string,
+  size = BLOCK_CHARS,
+  breaks: Array<number> = [],
+): Array<TextSpan> {
+  const forced = [...new Set(breaks)].sort((a, b) => a - b);
+  const blocks: Array<TextSpan> = [];
+  let start = 0;
+  let next = 0;
+  while (start < text.length) {
+    while (next < forced.length && forced[next] <= start) {
+      next++;
+    }
+    const limit = Math.min(start + size, forced[next] ?? text.length);
+    const end =
+      limit >= text.length || limit === forced[next]
+        ? Math.min(limit, text.length)
+        : breakBefore(text, start, limit);
+    blocks.push({ start, end });
+    start = end;
+  }
+  return blocks;
+}
+
+/** Index of the block holding `offset`; the last block past the end. */
+export function blockAt(blocks: Array<TextSpan>, offset: number) {
+  let lo = 0;
+  let hi = blocks.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (blocks[mid].start <= offset) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
+
+/**
+ * Case-insensitive matches of `query` in the text, where any run of
+ * whitespace in the query matches any run in the text.
+ */
+export function searchText(text: string, query: string): Array<TextSpan> {
+  const words = query.trim();
+  if (!words) {
+    return [];
+  }
+  const pattern = new RegExp(
+    words.replace(SPECIAL, '\\$&').replace(SPACE_RUN, '\\s+'),
+    'gi',
+  );
+  const matches: Array<TextSpan> = [];
+  for (const m of text.matchAll(pattern)) {
+    matches.push({ start: m.index, end: m.index + m[0].length });
+    if (matches.length >= MAX_MATCHES) {
+      break;
+    }
+  }
+  return matches;
+}
+
+/** A block's text cut into plain and highlighted pieces. */
+export function highlightPieces(
+  text: string,
+  block: TextSpan,
+  spans: Array<TextSpan & { key: string }>,
+) {
+  const pieces: Array<{ text: string; start: number; key?: string }> = [];
+  let at = block.start;
+  const inside = spans
+    .filter((s) => s.end > block.start && s.start < block.end)
+    .sort((a, b) => a.start - b.start);
+  for (const span of inside) {
+    const from = Math.max(span.start, at);
+    const to = Math.min(span.end, block.end);
+    if (from > at) {
+      pieces.push({ text: text.slice(at, from), start: at });
+    }
+    if (to > from) {
+      pieces.push({ text: text.slice(from, to), start: from, key: span.key });
+      at = to;
+    }
+  }
+  if (at < block.end) {
+    pieces.push({ text: text.slice(at, block.end), start: at });
+  }
+  return pieces;
+}
@@ -0,0 +1,38 @@
+import { db, type UsageRecord } from '@/lib/db';
+import { costOf } from '@/lib/llm/pricing';
+
+export type RunSpend = {
+  inputTokens: number;
+  outputTokens: number;
+  /** USD over the priced calls. */
+  cost: number;
+  calls: number;
+  /** Calls to models without a known price, missing from `cost`. */
+  unpriced: number;
+};
+
+/** Stores one call's reported usage, priced at the model's list price. */
+export async function recordUsage(
+  entry: Omit<UsageRecord, 'id' | 'cost' | 'createdAt'>,
+) {
+  await db.usage.put({
+    ...entry,
+    id: crypto.randomUUID(),
+    cost: costOf(entry.model, entry),
+    createdAt: Date.now(),
+  });
+}
+
+export async function runSpend(runId: string): Promise<RunSpend> {
+  const records = await db.usage.where({ runId }).toArray();
+  return records.reduce<RunSpend>(
+    (sum, r) => ({
+      inputTokens: sum.inputTokens + r.inputTokens,
+      outputTokens: sum.outputTokens + r.outputTokens,
+      cost: sum.cost + (r.cost ?? 0),
+      calls: sum.calls + 1,
+      unpriced: sum.unpriced + (r.cost === undefined ? 1 : 0),
+    }),
+    { inputTokens: 0, outputTokens: 0, cost: 0, calls: 0, unpriced: 0 },
+  );
+}
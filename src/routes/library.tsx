@@ -0,0 +1,7 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+import Library from '@/lib/pages/library';
+
+export const Route = createFileRoute('/library')({
+  component: Library,
+});
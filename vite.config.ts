@@ -51,5 +51,17 @@ export default defineConfig(({ mode }) => {
     server: {
       open: true,
     },
+    build: {
+      rollupOptions: {
+        output: {
+          // Tesseract fetches `${langPath}/eng.traineddata.gz`, so OCR
+          // language data keeps its file name
+          assetFileNames: ({ names }) =>
+            names.some((name) => name.endsWith('.traineddata.gz'))
+              ? 'assets/tessdata/[name][extname]'
+              : 'assets/[name]-[hash][extname]',
+        },
+      },
+    },
   };
 });